@@ -0,0 +1,112 @@
+/**
+ * 物理可行性检查回归验证
+ * 首个定位点为离群点时，启用载具约束的分析器不应被该点锁死而丢弃后续全部正常点；
+ * 未启用载具约束时，重建基准点的行为应保持不变
+ */
+
+import { GPSPoint } from '../utils/gpsAlgorithmPackage';
+import { GpsTrajectoryAnalyzer } from '../utils/gpsTrajectoryAnalyzer';
+import { resolvePreset } from '../utils/gpsConfigPresets';
+
+/** 启用载具约束的预设 */
+const VEHICLE_PRESETS = ['urban-car', 'tunnel-heavy'];
+
+/**
+ * 生成首点离群的静止轨迹
+ * 首点距其余点约2.5公里，其余点在约3米范围内按三角形轮换（1秒间隔）
+ */
+function createOutlierFirstTrack(pointCount: number): GPSPoint[] {
+  const startTime = Date.UTC(2024, 0, 1);
+  const offsets: [number, number][] = [[0, 0], [0.00003, 0], [0, 0.00003]];
+  const points: GPSPoint[] = [{ lat: 31.25, lng: 121.5, timestamp: startTime }];
+
+  for (let i = 1; i < pointCount; i++) {
+    const [latOffset, lngOffset] = offsets[i % offsets.length];
+    points.push({ lat: 31.23 + latOffset, lng: 121.47 + lngOffset, timestamp: startTime + i * 1000 });
+  }
+
+  return points;
+}
+
+/**
+ * 首点离群回归验证
+ * 只应过滤离群点之后、重新锚定之前的少量点
+ * @returns 过滤点数和基准点重建次数
+ */
+export function feasibilityOutlierRegressionCheck(): { filteredCount: number; rebuilds: number } {
+  const points = createOutlierFirstTrack(200);
+  const result = new GpsTrajectoryAnalyzer({ vehicleProfile: 'car' }).processTrajectory(points);
+  const filteredCount = result.filteredPoints.length;
+  const rebuilds = result.statistics.basePointRebuildsCount || 0;
+
+  if (filteredCount > 10 || rebuilds > 1) {
+    throw new Error(`首点离群后分析器未恢复: 过滤${filteredCount}/${points.length}点，重建基准点${rebuilds}次`);
+  }
+
+  return { filteredCount, rebuilds };
+}
+
+/**
+ * 启用载具约束的预设在首点离群时同样应能恢复
+ * @returns 各预设的过滤点数
+ */
+export function vehiclePresetOutlierRegressionCheck(): Record<string, number> {
+  const points = createOutlierFirstTrack(200);
+  const filteredCounts: Record<string, number> = {};
+
+  for (const preset of VEHICLE_PRESETS) {
+    const result = new GpsTrajectoryAnalyzer(resolvePreset(preset)).processTrajectory(points);
+    filteredCounts[preset] = result.filteredPoints.length;
+
+    if (result.filteredPoints.length > 10) {
+      throw new Error(`预设 ${preset} 在首点离群后未恢复: 过滤${result.filteredPoints.length}/${points.length}点`);
+    }
+  }
+
+  return filteredCounts;
+}
+
+/**
+ * 生成带周期性漂移段的低速轨迹
+ * 每40个点中第30-36个点整体偏移约1公里（2秒间隔），连续漂移足以触发基准点重建
+ */
+function createDriftBurstTrack(pointCount: number): GPSPoint[] {
+  const startTime = Date.UTC(2024, 0, 1);
+  const points: GPSPoint[] = [];
+
+  for (let i = 0; i < pointCount; i++) {
+    const isDrift = i % 40 >= 30 && i % 40 < 37;
+    points.push({
+      lat: 31.23 + i * 0.00001 + (isDrift ? 0.01 : 0),
+      lng: 121.47 + (i % 3) * 0.00002,
+      timestamp: startTime + i * 2000
+    });
+  }
+
+  return points;
+}
+
+/**
+ * 未启用载具约束时重建基准点的回归验证
+ * 期望值为引入物理可行性参照点重置之前的分析器输出
+ * @returns 有效点数、过滤点数和基准点重建次数
+ */
+export function defaultRebuildRegressionCheck(): { processedCount: number; filteredCount: number; rebuilds: number } {
+  const expected = { processedCount: 165, filteredCount: 35, rebuilds: 8 };
+  const result = new GpsTrajectoryAnalyzer({ validityPeriod: 180000, maxDriftSequence: 5 }).processTrajectory(createDriftBurstTrack(200));
+  const actual = {
+    processedCount: result.processedPoints.length,
+    filteredCount: result.filteredPoints.length,
+    rebuilds: result.statistics.basePointRebuildsCount || 0
+  };
+
+  if (
+    actual.processedCount !== expected.processedCount ||
+    actual.filteredCount !== expected.filteredCount ||
+    actual.rebuilds !== expected.rebuilds
+  ) {
+    throw new Error(`未启用载具约束时分析器输出发生变化: 期望${JSON.stringify(expected)}，实际${JSON.stringify(actual)}`);
+  }
+
+  return actual;
+}
@@ -0,0 +1,49 @@
+/**
+ * 回归验证入口（npm test）
+ * 依次运行各项验证，任一验证失败时在全部运行完成后抛出错误，使进程以非零状态退出
+ */
+
+import {
+  feasibilityOutlierRegressionCheck,
+  vehiclePresetOutlierRegressionCheck,
+  defaultRebuildRegressionCheck
+} from './feasibilityRegressionCheck';
+import { feasibilityPipelineInPackageCheck, invalidStageConfigCheck } from './pipelineCheck';
+import { coreAlgorithmRegistryCheck } from './registryCheck';
+
+/** 回归验证项：失败时抛出错误，成功时返回用于展示的结果 */
+interface RegressionCheck {
+  name: string;
+  run: () => unknown;
+}
+
+const CHECKS: RegressionCheck[] = [
+  { name: '首点离群后分析器恢复', run: feasibilityOutlierRegressionCheck },
+  { name: '载具预设首点离群后恢复', run: vehiclePresetOutlierRegressionCheck },
+  { name: '未启用载具约束时重建行为不变', run: defaultRebuildRegressionCheck },
+  { name: '含可行性阶段的流水线作为算法包算法', run: feasibilityPipelineInPackageCheck },
+  { name: '流水线拒绝无效阶段配置', run: invalidStageConfigCheck },
+  { name: '注册表中的旧处理器与GPSCore一致', run: coreAlgorithmRegistryCheck }
+];
+
+/** 运行全部验证 */
+export function runRegressionChecks(): void {
+  const failures: string[] = [];
+
+  for (const check of CHECKS) {
+    try {
+      const result = check.run();
+      console.log(`✓ ${check.name}`, JSON.stringify(result));
+    } catch (error) {
+      failures.push(check.name);
+      console.error(`✗ ${check.name}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`${failures.length}/${CHECKS.length}项回归验证失败: ${failures.join('、')}`);
+  }
+  console.log(`全部${CHECKS.length}项回归验证通过`);
+}
+
+runRegressionChecks();
@@ -0,0 +1,77 @@
+/**
+ * 处理流水线回归验证
+ * 流水线应能直接作为GPSAlgorithmPackage的算法使用，包括含物理可行性阶段的流水线；无效的阶段配置应在构建时报错
+ */
+
+import { GPSAlgorithmPackage, GPSPoint } from '../utils/gpsAlgorithmPackage';
+import { FeasibilityStage, GPSPipeline, PipelineSpec } from '../utils/gpsPipeline';
+
+/** 生成匀速直线轨迹（约10米/秒，1秒间隔） */
+function createStraightTrack(pointCount: number): GPSPoint[] {
+  const startTime = Date.UTC(2024, 0, 1);
+  return Array.from({ length: pointCount }, (_, i) => ({
+    lat: 31.23 + i * 0.00009,
+    lng: 121.47,
+    timestamp: startTime + i * 1000
+  }));
+}
+
+/**
+ * 含可行性阶段的流水线作为算法包的算法使用
+ * 算法包下发的默认配置（vehicleProfile为'none'）不应覆盖可行性阶段默认的载具类型
+ * @returns 可行性阶段生效的载具类型和输出点数
+ */
+export function feasibilityPipelineInPackageCheck(): { vehicleProfile: string; validOutputPoints: number } {
+  const pipeline = GPSPipeline.fromSpec({ stages: [{ type: 'feasibility' }, { type: 'analyzer' }] });
+  const algorithmPackage = new GPSAlgorithmPackage(pipeline);
+  const points = createStraightTrack(50);
+  const result = algorithmPackage.processTrajectory(points);
+
+  const stage = pipeline.getStage('feasibility');
+  const vehicleProfile = stage instanceof FeasibilityStage ? stage.getConfig().vehicleProfile : 'unknown';
+  if (vehicleProfile !== 'car') {
+    throw new Error(`可行性阶段的载具类型被共享配置覆盖: ${vehicleProfile}`);
+  }
+  if (result.statistics.validOutputPoints + result.statistics.filteredPointsCount !== points.length) {
+    throw new Error(`流水线输出点数与输入不一致: ${result.statistics.validOutputPoints}+${result.statistics.filteredPointsCount}/${points.length}`);
+  }
+
+  // 共享配置显式指定载具类型时仍应继承
+  algorithmPackage.updateConfig({ vehicleProfile: 'truck' });
+  const inheritedProfile = stage instanceof FeasibilityStage ? stage.getConfig().vehicleProfile : 'unknown';
+  if (inheritedProfile !== 'truck') {
+    throw new Error(`可行性阶段未继承共享配置的载具类型: ${inheritedProfile}`);
+  }
+
+  return { vehicleProfile, validOutputPoints: result.statistics.validOutputPoints };
+}
+
+/**
+ * 流水线描述中的无效阶段配置应在构建时被拒绝
+ * @returns 被拒绝的描述数量
+ */
+export function invalidStageConfigCheck(): { rejectedSpecs: number } {
+  const invalidSpecs: PipelineSpec[] = [
+    { stages: [{ type: 'analyzer', config: { windowSize: '10' } }] },
+    { stages: [{ type: 'feasibility', config: { vehicleProfile: 'bicycle' } }] },
+    { stages: [{ type: 'sanitize', config: { nearDuplicateDistanse: 1 } }] },
+    { stages: [{ type: 'compress', config: { segmentCount: '6' } }] },
+    { stages: [{ type: 'simplify', config: { method: 'radial', tolerance: 5 } }] },
+    { stages: [{ type: 'simplify', config: { method: 'sed' } }] },
+    { stages: [{ type: 'kalman', output: 'raw' as 'processed' }] }
+  ];
+
+  for (const spec of invalidSpecs) {
+    let rejected = false;
+    try {
+      GPSPipeline.fromSpec(spec);
+    } catch {
+      rejected = true;
+    }
+    if (!rejected) {
+      throw new Error(`无效的阶段配置未被拒绝: ${JSON.stringify(spec.stages[0])}`);
+    }
+  }
+
+  return { rejectedSpecs: invalidSpecs.length };
+}
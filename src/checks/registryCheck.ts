@@ -0,0 +1,54 @@
+/**
+ * 算法注册表回归验证
+ * 注册表中的旧处理器（core）经算法包处理的结果应与直接使用GPSCore一致
+ */
+
+import { GPSAlgorithmPackage, GPSPoint } from '../utils/gpsAlgorithmPackage';
+import { createAlgorithm } from '../utils/gpsAlgorithmRegistry';
+import { GPSCore } from '../utils/gpsCore';
+
+/** 生成含周期性漂移的直线轨迹（2秒间隔，每30个点中第20-23个点偏移约500米） */
+function createDriftTrack(pointCount: number): GPSPoint[] {
+  const startTime = Date.UTC(2024, 0, 1);
+  return Array.from({ length: pointCount }, (_, i) => {
+    const drift = i % 30 >= 20 && i % 30 < 24 ? 0.005 : 0;
+    return {
+      lat: 31.23 + i * 0.00005 + drift,
+      lng: 121.47,
+      timestamp: startTime + i * 2000
+    };
+  });
+}
+
+/**
+ * 旧处理器通过注册表创建并由算法包处理
+ * @returns 有效点数、过滤点数和基准点重建次数
+ */
+export function coreAlgorithmRegistryCheck(): { validOutputPoints: number; filteredPointsCount: number; rebuilds: number } {
+  const points = createDriftTrack(150);
+  const config = { windowSize: 8, maxDriftSequence: 6 };
+
+  const core = new GPSCore(config);
+  const expected = core.processTrajectory(points);
+  const expectedStatus = core.getStatus();
+
+  const algorithmPackage = new GPSAlgorithmPackage(createAlgorithm('core', config), undefined, undefined, config);
+  const result = algorithmPackage.processTrajectory(points);
+  const rebuildMarkers = (result.markers || []).filter(marker => marker.type === 'rebuild');
+
+  if (result.processedPoints.length !== expected.processedPoints.length) {
+    throw new Error(`有效点数与GPSCore不一致: ${result.processedPoints.length}/${expected.processedPoints.length}`);
+  }
+  if (result.statistics.basePointRebuildsCount !== expectedStatus.basePointRebuildsCount) {
+    throw new Error(`重建次数与GPSCore不一致: ${result.statistics.basePointRebuildsCount}/${expectedStatus.basePointRebuildsCount}`);
+  }
+  if (rebuildMarkers.length !== expectedStatus.basePointRebuildPositions.length) {
+    throw new Error(`重建标记数与GPSCore重建位置数不一致: ${rebuildMarkers.length}/${expectedStatus.basePointRebuildPositions.length}`);
+  }
+
+  return {
+    validOutputPoints: result.statistics.validOutputPoints,
+    filteredPointsCount: result.statistics.filteredPointsCount,
+    rebuilds: result.statistics.basePointRebuildsCount
+  };
+}
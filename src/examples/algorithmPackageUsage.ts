@@ -123,16 +123,11 @@ export function example3_ExtendedFormat() {
   const basicPoints = algorithmPackage.fromExtendedFormat(sampleExtendedPoints);
   console.log('转换后的基础点数：', basicPoints.length);
   
-  // 转换回扩展格式
-  const extendedResult = algorithmPackage.toExtendedFormat(basicPoints, {
-    defaultSpeed: 15.0,
-    defaultAltitude: 30.0,
-    defaultCourse: 90
-  });
-  
-  console.log('扩展格式结果：', extendedResult.slice(0, 2));
+  // 处理转换后的数据
+  const result = algorithmPackage.processTrajectory(basicPoints);
+  console.log('处理后的有效点数：', result.statistics.validOutputPoints);
   
-  return extendedResult;
+  return result;
 }
 
 /**
@@ -240,13 +235,13 @@ export function example7_StreamProcessing() {
     
     console.log(`处理点 ${index + 1}:`, {
       输入: `(${point.lat.toFixed(4)}, ${point.lng.toFixed(4)})`,
-      结果: result ? `(${result.lat.toFixed(4)}, ${result.lng.toFixed(4)})` : '被过滤',
-      状态: algorithmPackage.getStatus().currentState
+      结果: result ? '有效' : '被过滤',
+      基准点: algorithmPackage.getStatus().basePoint
     });
   });
   
   // 获取最终统计
-  const finalStats = algorithmPackage.getStatistics();
+  const finalStats = algorithmPackage.getStatus().statistics;
   console.log('流式处理统计：', finalStats);
   
   return finalStats;
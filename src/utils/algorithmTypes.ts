@@ -10,6 +10,27 @@ export type {
   ProcessingResult,
   ProcessingStatistics,
   MarkerInfo,
+  Trip,
+  TripSegmentationResult,
+  GapInterpolationMethod,
+  GapSegment,
+  InterpolatedGPSPoint,
+  TwoPassVotingRule,
+  TwoPassDisagreement,
+  TwoPassReport,
+  SanitationIssue,
+  SanitationEntry,
+  SanitationReport,
+  SanitationResult,
+  PipelineStageReport,
+  DriftType,
+  GroundTruthLabel,
+  SimulatedPointLabel,
+  SimulationResult,
+  NoiseModelSpec,
+  DecisionReasonCode,
+  WindowSnapshotPoint,
+  PointDecisionTrace,
   AlgorithmConfig,
   IGPSAlgorithm,
   AlgorithmStatus,
@@ -6,11 +6,146 @@
  * @version 1.0.0
  */
 
+import { GPSAlgorithmPackage, AlgorithmConfig, GPSPoint } from './gpsAlgorithmPackage';
+import { createAlgorithm, DEFAULT_ALGORITHM } from './gpsAlgorithmRegistry';
+import { resolvePreset } from './gpsConfigPresets';
+import { GPSSimulationGenerator } from './gpsSimulationGenerator';
+
 // ==================== 核心算法包 ====================
 export { GPSAlgorithmPackage } from './gpsAlgorithmPackage';
-export { GpsTrajectoryAnalyzer } from './gpsTrajectoryAnalyzer';
+export { GpsTrajectoryAnalyzer, ANALYZER_STATE_VERSION } from './gpsTrajectoryAnalyzer';
+export type { AnalyzerStateSnapshot } from './gpsTrajectoryAnalyzer';
+export { GpsKalmanFilter } from './gpsKalmanFilter';
+export {
+  registerAlgorithm,
+  unregisterAlgorithm,
+  listAlgorithms,
+  getAlgorithmInfo,
+  createAlgorithm,
+  DEFAULT_ALGORITHM
+} from './gpsAlgorithmRegistry';
+export type { AlgorithmFactory, AlgorithmRegistration, AlgorithmInfo } from './gpsAlgorithmRegistry';
+export {
+  BUILTIN_PRESETS,
+  DEFAULT_PRESET,
+  registerPreset,
+  unregisterPreset,
+  listPresets,
+  getPreset,
+  resolvePreset,
+  getInheritanceChain,
+  diffConfigs,
+  diffPresets
+} from './gpsConfigPresets';
+export type { ConfigPreset, ConfigPresetInfo, ConfigDifference } from './gpsConfigPresets';
+export {
+  GPSAutoTuner,
+  DEFAULT_AUTO_TUNE_CONFIG,
+  labelSimulatedDataset
+} from './gpsAutoTuner';
+export type {
+  LabelledDataset,
+  TuningStrategy,
+  TunableConfigKey,
+  TuningParameter,
+  TuningMetric,
+  TuningObjective,
+  TuningTrial,
+  AutoTuneConfig,
+  AutoTuneResult
+} from './gpsAutoTuner';
+export {
+  evaluateProcessingResult,
+  computeDetectionMetrics,
+  mergeDetectionMetrics,
+  labelsFromDriftFlags,
+  parseLabelledPoints
+} from './gpsEvaluation';
+export type { DetectionMetrics, EvaluationMetrics, EvaluationReport, LabelledPointRecord } from './gpsEvaluation';
+export {
+  ALGORITHM_CONFIG_FIELDS,
+  pickConfigSchema,
+  validateAlgorithmConfig,
+  assertValidAlgorithmConfig,
+  AlgorithmConfigError
+} from './gpsConfigSchema';
+export type {
+  AlgorithmConfigField,
+  AlgorithmConfigSchema,
+  ConfigValidationErrorCode,
+  ConfigValidationError
+} from './gpsConfigSchema';
 export { GPSDataConverter } from './gpsDataConverter';
 export { GPSSimulationGenerator } from './gpsSimulationGenerator';
+export { createSeededRandom, generateSeed, normalizeSeed } from './gpsRandom';
+export type { RandomGenerator } from './gpsRandom';
+export { GPSRouteGenerator, DEFAULT_ROUTE_GENERATOR_CONFIG, parseRouteInput } from './gpsRouteGenerator';
+export type {
+  RouteWaypoint,
+  GeoJSONLineString,
+  GeoJSONLineStringFeature,
+  RouteInput,
+  RouteGeneratorConfig,
+  RouteStop,
+  GeneratedRoute
+} from './gpsRouteGenerator';
+export {
+  UniformNoiseModel,
+  GaussMarkovNoiseModel,
+  HeavyTailedNoiseModel,
+  SatelliteNoiseModel,
+  DEFAULT_NOISE_PARAMS,
+  registerNoiseModel,
+  getNoiseModelTypes,
+  createNoiseModel,
+  gaussianRandom
+} from './gpsNoiseModels';
+export type {
+  BuiltinNoiseModelType,
+  NoiseOffset,
+  INoiseModel,
+  NoiseModelFactory,
+  UniformNoiseParams,
+  GaussMarkovNoiseParams,
+  HeavyTailedNoiseParams,
+  SatelliteNoiseParams
+} from './gpsNoiseModels';
+export { GPSStreamManager } from './gpsStreamManager';
+export { GPSUploadCompressor, DEFAULT_UPLOAD_COMPRESSION_CONFIG } from './gpsUploadCompressor';
+export type { StreamManagerOptions, DeviceStreamStatistics, FleetStatistics } from './gpsStreamManager';
+export { simplifyTrajectory, synchronizedEuclideanDistance } from './gpsTrajectorySimplifier';
+export type { SimplificationMethod, SimplificationOptions, SimplificationResult } from './gpsTrajectorySimplifier';
+export { GPSStayPointDetector, DEFAULT_STAY_POINT_CONFIG } from './gpsStayPointDetector';
+export type { StayPoint, StayPointConfig } from './gpsStayPointDetector';
+export { GPSTripSegmenter, DEFAULT_TRIP_SEGMENTATION_CONFIG } from './gpsTripSegmenter';
+export type { TripSegmentationConfig } from './gpsTripSegmenter';
+export { VEHICLE_PROFILES, resolveVehicleProfile, checkFeasibility } from './gpsFeasibilityFilter';
+export type { VehicleProfileName, VehicleProfile, FeasibilityConstraint, FeasibilityCheckResult } from './gpsFeasibilityFilter';
+export { interpolateGap } from './gpsGapInterpolator';
+export { processTwoPass } from './gpsTwoPassProcessor';
+export { DataClock, SystemClock, ManualClock } from './gpsClock';
+export type { GPSClock } from './gpsClock';
+export { GPSSanitizer, DEFAULT_SANITATION_CONFIG } from './gpsSanitizer';
+export type { SanitationConfig } from './gpsSanitizer';
+export type { UploadCompressionConfig, UploadReport, UploadCompressionResult } from './gpsUploadCompressor';
+export {
+  GPSPipeline,
+  SanitizeStage,
+  FeasibilityStage,
+  AlgorithmStage,
+  SimplifyStage,
+  CompressStage,
+  registerPipelineStage,
+  getPipelineStageTypes
+} from './gpsPipeline';
+export type {
+  IPipelineStage,
+  PipelineStageOutput,
+  BuiltinPipelineStageType,
+  PipelineStageSpec,
+  PipelineSpec,
+  PipelineStageFactory
+} from './gpsPipeline';
 
 // ==================== 接口定义 ====================
 export type {
@@ -20,6 +155,29 @@ export type {
   ProcessingResult,
   ProcessingStatistics,
   MarkerInfo,
+  Trip,
+  TripSegmentationResult,
+  GapInterpolationMethod,
+  GapSegment,
+  InterpolatedGPSPoint,
+  TwoPassVotingRule,
+  TwoPassDisagreement,
+  TwoPassReport,
+  SanitationIssue,
+  SanitationEntry,
+  SanitationReport,
+  SanitationResult,
+  PipelineStageReport,
+  DriftType,
+  GroundTruthLabel,
+  SimulatedPointLabel,
+  SimulationResult,
+  NoiseModelSpec,
+  
+  // 判定追踪
+  DecisionReasonCode,
+  WindowSnapshotPoint,
+  PointDecisionTrace,
   
   // 配置接口
   AlgorithmConfig,
@@ -51,22 +209,26 @@ export type {
 
 // ==================== 快速创建函数 ====================
 
+/** 快速创建算法包的选项 */
+export type CreateAlgorithmPackageOptions = Partial<AlgorithmConfig> & {
+  algorithm?: string;         // 注册表中的算法名称（默认：'analyzer'）
+  algorithmVersion?: string;  // 算法版本（默认：最后注册的版本）
+  preset?: string;            // 配置预设名称，其余配置项在预设基础上覆盖
+};
+
 /**
  * 快速创建GPS算法包实例
- * @param config 可选的配置参数
+ * @param options 可选的配置参数，可通过algorithm按名称选择已注册的算法，通过preset加载配置预设
  * @returns GPS算法包实例
  */
-export function createGPSAlgorithmPackage(config?: Partial<AlgorithmConfig>): GPSAlgorithmPackage {
-  const { GpsTrajectoryAnalyzer } = require('./gpsTrajectoryAnalyzer');
-  const { GPSDataConverter } = require('./gpsDataConverter');
-  const { GPSSimulationGenerator } = require('./gpsSimulationGenerator');
-  const { GPSAlgorithmPackage } = require('./gpsAlgorithmPackage');
-  
-  const algorithm = new GpsTrajectoryAnalyzer(config);
-  const converter = new GPSDataConverter();
+export function createGPSAlgorithmPackage(options?: CreateAlgorithmPackageOptions): GPSAlgorithmPackage {
+  const { algorithm: algorithmName = DEFAULT_ALGORITHM, algorithmVersion, preset, ...overrides } = options || {};
+  const config = preset ? { ...resolvePreset(preset), ...overrides } : overrides;
+  const algorithm = createAlgorithm(algorithmName, config, algorithmVersion);
   const simulator = new GPSSimulationGenerator();
   
-  return new GPSAlgorithmPackage(algorithm, converter, simulator, config);
+  // 数据转换使用算法包内置的转换器
+  return new GPSAlgorithmPackage(algorithm, undefined, simulator, config);
 }
 
 /**
@@ -96,8 +258,9 @@ export function generateSimulatedGPSData(
     movingDriftCount?: number;
     tunnelCount?: number;
     speedScenarioCount?: number;
+    seed?: number;
   }
-): { points: GPSPoint[]; markers: MarkerInfo[] } {
+): { points: GPSPoint[]; markers: MarkerInfo[]; seed?: number } {
   const algorithmPackage = createGPSAlgorithmPackage();
   return algorithmPackage.generateSimulatedData(basePoints, options);
 }
@@ -114,8 +277,6 @@ export function validateGPSData(points: any[]): {
   invalidCount: number;
   validRate: number;
 } {
-  const { GPSAlgorithmPackage } = require('./gpsAlgorithmPackage');
-  
   const valid: GPSPoint[] = [];
   const invalid: any[] = [];
   
@@ -145,7 +306,6 @@ export function validateGPSData(points: any[]): {
  * @returns 距离（米）
  */
 export function calculateDistance(point1: GPSPoint, point2: GPSPoint): number {
-  const { GPSAlgorithmPackage } = require('./gpsAlgorithmPackage');
   return GPSAlgorithmPackage.calculateDistance(point1, point2);
 }
 
@@ -203,6 +363,9 @@ export const ALGORITHM_NAME = 'DTU GPS Processing Algorithm Package';
  * const algorithmPackage = createGPSAlgorithmPackage({ windowSize: 20 });
  * const result = algorithmPackage.processTrajectory(gpsPoints);
  * 
+ * // 2.1 按名称选择算法和配置预设
+ * const kalmanPackage = createGPSAlgorithmPackage({ algorithm: 'kalman', preset: 'highway-truck' });
+ * 
  * // 3. 数据转换
  * import { DataConverter } from './gpsAlgorithmIndex';
  * const points = DataConverter.fromJSON(jsonString);
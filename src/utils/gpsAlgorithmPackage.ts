@@ -4,6 +4,18 @@
  * 支持多种算法实现的插拔式架构
  */
 
+import {
+  simplifyTrajectory,
+  SimplificationOptions,
+  SimplificationResult
+} from './gpsTrajectorySimplifier';
+import { GPSStayPointDetector, StayPoint, StayPointConfig } from './gpsStayPointDetector';
+import { GPSTripSegmenter, TripSegmentationConfig } from './gpsTripSegmenter';
+import { VehicleProfileName, FeasibilityConstraint } from './gpsFeasibilityFilter';
+import { processTwoPass } from './gpsTwoPassProcessor';
+import { GPSSanitizer, SanitationConfig } from './gpsSanitizer';
+import { assertValidAlgorithmConfig } from './gpsConfigSchema';
+
 // ==================== 基础数据类型定义 ====================
 
 /** GPS点数据结构 */
@@ -19,6 +31,7 @@ export interface ExtendedGPSPoint extends GPSPoint {
   spd?: number | null;  // 速度（km/h）
   alt?: number | null;  // 高度（米）
   cog?: number | null;  // 航向角（度，0-360）
+  mileage?: number | null; // 里程（DTU上报，65536为无效哨兵值）
 }
 
 /** 处理结果数据结构 */
@@ -28,6 +41,13 @@ export interface ProcessingResult {
   filteredPoints: GPSPoint[];     // 过滤掉的点
   statistics: ProcessingStatistics; // 处理统计信息
   markers?: MarkerInfo[];         // 标记信息（可选）
+  smoothedPoints?: GPSPoint[];    // 平滑后的有效点（可选，由滤波类算法提供）
+  trace?: PointDecisionTrace[];   // 逐点判定追踪（可选，enableDecisionTrace开启时提供）
+  gaps?: GapSegment[];            // 数据缺口（可选，由支持缺口检测的算法在检测开启时提供）
+  interpolatedPoints?: InterpolatedGPSPoint[]; // 缺口插值重建的点（可选，gapInterpolation开启时提供）
+  twoPass?: TwoPassReport;        // 双向处理报告（可选，processingMode为'two-pass'时提供）
+  sanitation?: SanitationReport;  // 输入清洗报告（可选，enableSanitation开启时提供）
+  stages?: PipelineStageReport[]; // 各流水线阶段的报告（可选，由处理流水线提供）
 }
 
 /** 处理统计信息 */
@@ -39,14 +59,224 @@ export interface ProcessingStatistics {
   basePointRebuildsCount: number;     // 基准点重建次数
   processingTimeMs: number;           // 处理耗时（毫秒）
   filteringRate: number;              // 过滤率（0-1）
+  speedRejectedPointsCount?: number;  // 速度放宽阈值后仍被拒绝的点数（kinematic模式）
+  headingRejectedPointsCount?: number; // 因航向不一致被拒绝的点数（kinematic模式）
+  speedRescuedPointsCount?: number;   // 因速度放宽阈值而被接受的点数（kinematic模式）
+  feasibilityRejectedPointsCount?: number; // 违反载具物理约束被拒绝的点数（启用vehicleProfile时）
+  feasibilityViolations?: Record<FeasibilityConstraint, number>; // 按约束类型统计的违反次数
+  gapCount?: number;                  // 数据缺口数
+  totalGapDuration?: number;          // 缺口总时长（毫秒）
+  interpolatedPointsCount?: number;   // 插值重建的点数
+  reducedPointsCount?: number;        // 简化/压缩精简掉的点数（由处理流水线提供，不计入过滤点，三者之和等于输入点总数）
 }
 
 /** 标记信息 */
 export interface MarkerInfo {
-  type: 'tunnel' | 'drift' | 'speed' | 'rebuild';
+  type: 'tunnel' | 'drift' | 'speed' | 'rebuild' | 'gap';
   position: { lat: number; lng: number };
   info: string;
   timestamp?: number;
+  stage?: string;  // 产生该标记的流水线阶段名称（可选）
+}
+
+/** 缺口插值方式 */
+export type GapInterpolationMethod = 'none' | 'linear' | 'great-circle';
+
+/** 数据缺口（相邻两个输入点的时间间隔超过gapThreshold） */
+export interface GapSegment {
+  startIndex: number;         // 缺口前最后一个输入点的序号
+  endIndex: number;           // 缺口后第一个输入点的序号
+  startPoint: GPSPoint;       // 缺口前最后一个输入点
+  endPoint: GPSPoint;         // 缺口后第一个输入点
+  startTime: number;          // 缺口开始时间（毫秒）
+  endTime: number;            // 缺口结束时间（毫秒）
+  duration: number;           // 缺口时长（毫秒）
+  distance: number;           // 缺口两端点距离（米）
+  interpolatedPointCount: number; // 缺口内插值重建的点数（两端点均为有效点时才插值）
+}
+
+/** 插值重建的点，synthetic恒为true，不可视为真实定位 */
+export interface InterpolatedGPSPoint extends GPSPoint {
+  synthetic: true;
+  gapIndex: number;           // 所属缺口在gaps中的序号
+}
+
+/**
+ * 双向处理投票规则
+ * - both：正反两遍都判为漂移才删除
+ * - either：任一遍判为漂移即删除
+ * - forward / backward：只采用单向判定（用于对比）
+ */
+export type TwoPassVotingRule = 'both' | 'either' | 'forward' | 'backward';
+
+/** 正反两遍判定不一致的点 */
+export interface TwoPassDisagreement {
+  index: number;                      // 点在输入中的序号
+  point: GPSPoint;
+  forward: 'accepted' | 'filtered';   // 正向判定
+  backward: 'accepted' | 'filtered';  // 反向判定
+  final: 'accepted' | 'filtered';     // 投票后的最终判定
+}
+
+/** 双向处理报告 */
+export interface TwoPassReport {
+  votingRule: TwoPassVotingRule;
+  forwardFilteredCount: number;       // 正向过滤点数
+  backwardFilteredCount: number;      // 反向过滤点数
+  agreedFilteredCount: number;        // 两遍都过滤的点数
+  disagreements: TwoPassDisagreement[]; // 判定不一致的点
+}
+
+/** 输入清洗问题类型 */
+export type SanitationIssue =
+  | 'invalidTimestamp'    // 时间戳缺失或非法
+  | 'mileageSentinel'     // 里程为哨兵值（如65536）
+  | 'clockJump'           // 孤立的时钟跳变
+  | 'outOfOrder'          // 时间乱序
+  | 'invalidCoordinate'   // 零值/NaN/越界坐标
+  | 'exactDuplicate'      // 时间和位置完全相同的重复点
+  | 'duplicateTimestamp'  // 同一时间戳的不同位置
+  | 'nearDuplicate';      // 时间和位置都极其接近的重复点
+
+/** 单条清洗记录 */
+export interface SanitationEntry {
+  index: number;                  // 点在原始输入中的序号
+  issue: SanitationIssue;
+  action: 'dropped' | 'repaired' | 'reordered' | 'merged';
+}
+
+/** 输入清洗报告 */
+export interface SanitationReport {
+  inputCount: number;             // 输入点数
+  outputCount: number;            // 清洗后点数
+  droppedCount: number;           // 丢弃点数（不含合并）
+  repairedCount: number;          // 修复点数
+  issues: Record<SanitationIssue, number>; // 按问题类型统计
+  entries: SanitationEntry[];     // 逐点清洗记录
+}
+
+/** 输入清洗结果 */
+export interface SanitationResult {
+  points: GPSPoint[];             // 清洗后的点（按时间排序）
+  report: SanitationReport;
+}
+
+/** 流水线单个阶段的处理报告 */
+export interface PipelineStageReport {
+  name: string;                   // 阶段名称
+  type: string;                   // 阶段类型
+  inputCount: number;             // 阶段输入点数
+  outputCount: number;            // 阶段输出点数
+  filteredCount: number;          // 阶段剔除的点数（简化/压缩等变换阶段为0）
+  reducedCount: number;           // 阶段精简掉的点数（输入点数 - 输出点数 - 剔除点数）
+  processingTimeMs: number;       // 阶段耗时（毫秒）
+  statistics: Partial<ProcessingStatistics>; // 阶段自身的统计信息
+}
+
+/**
+ * 模拟异常场景类型
+ * multipath: 城市峡谷多路径（横向偏移且左右跳变）；cold-start: 冷启动收敛（从数公里外螺旋收敛）；
+ * frozen: 定位冻结（坐标不变而车辆仍在移动）；timestamp: 时间戳异常（重复或倒退）
+ */
+export type DriftType =
+  | 'static'
+  | 'moving'
+  | 'tunnel'
+  | 'speed'
+  | 'multipath'
+  | 'cold-start'
+  | 'frozen'
+  | 'timestamp';
+
+/** 单个点的真值标注 */
+export interface GroundTruthLabel {
+  isDrift: boolean;               // 是否为漂移点（应被过滤）
+  scenario: DriftType | null;     // 所属异常场景（未受影响的点为null）
+  cleanPosition: { lat: number; lng: number } | null; // 无噪声时的真实位置（未知时为null）
+}
+
+/** 模拟数据中单个点的真值标注 */
+export interface SimulatedPointLabel extends GroundTruthLabel {
+  originalIndex: number | null;   // 对应原始数据中的序号（注入的漂移点为null）
+  injected: boolean;              // 是否为注入的点（原始数据中不存在）
+  cleanTimestamp: number;         // 真实时间戳（时间戳异常场景下与timestamp不同）
+  offsetMeters: number;           // 相对真实位置的偏移（米）
+  deleted: boolean;               // 是否被删除（隧道信号中断或高速场景丢点），仅出现在deletedLabels中
+}
+
+/** 模拟数据生成结果 */
+export interface SimulationResult {
+  points: GPSPoint[];
+  markers: MarkerInfo[];
+  labels?: SimulatedPointLabel[];        // 与points一一对应的真值标注
+  deletedLabels?: SimulatedPointLabel[]; // 被删除的原始点的真值标注
+  seed?: number;                         // 本次生成使用的随机种子（可用于复现）
+}
+
+/** 行程（两次停留之间的一段连续运动） */
+export interface Trip {
+  startTime: number;                          // 开始时间（毫秒）
+  endTime: number;                            // 结束时间（毫秒）
+  startLocation: { lat: number; lng: number }; // 起点
+  endLocation: { lat: number; lng: number };   // 终点
+  distance: number;                           // 行驶距离（米）
+  duration: number;                           // 行程时长（毫秒）
+  averageSpeed: number;                       // 平均速度（米/秒）
+  maxSpeed: number;                           // 最大速度（米/秒，相邻有效点间）
+  pointCount: number;                         // 行程内有效点数
+  filteredPointCount: number;                 // 行程时间范围内被过滤的点数
+  startIndex: number;                         // 首个点在有效点中的索引
+  endIndex: number;                           // 最后一个点在有效点中的索引
+}
+
+/** 行程分段结果 */
+export interface TripSegmentationResult {
+  trips: Trip[];                  // 行程列表（按时间排序）
+  stops: StayPoint[];             // 停留列表（按时间排序）
+  statistics: {
+    tripCount: number;            // 行程数
+    stopCount: number;            // 停留数
+    totalDistance: number;        // 行程总距离（米）
+    totalMovingDuration: number;  // 行程总时长（毫秒）
+    totalStopDuration: number;    // 停留总时长（毫秒）
+  };
+}
+
+/** 判定原因代码 */
+export type DecisionReasonCode =
+  | 'no_base_point'         // 尚未建立基准点，直接接受
+  | 'base_point_expired'    // 基准点已过期被清除，直接接受
+  | 'within_threshold'      // 与基准点距离未超过阈值
+  | 'exceeds_threshold'     // 与基准点距离超过阈值，判为漂移
+  | 'heading_inconsistent'  // 位移方向与上报航向不一致，判为漂移
+  | 'physically_infeasible'  // 相对最近有效点违反载具物理约束，判为漂移
+  | 'base_point_reset_by_gap'; // 缺口后基准点被清除，直接接受
+
+/** 滑动窗口快照中的点 */
+export interface WindowSnapshotPoint {
+  lat: number;
+  lng: number;
+  timestamp: number;
+  isValid: boolean;
+  isDrift: boolean;
+}
+
+/** 单点判定追踪记录 */
+export interface PointDecisionTrace {
+  index: number;                      // 点在输入流中的序号
+  point: GPSPoint;                    // 输入点
+  decision: 'accepted' | 'filtered';  // processPoint的判定结果
+  reason: DecisionReasonCode;         // 判定原因
+  distanceToBasePoint: number | null; // 与基准点的距离（米），无基准点时为null
+  threshold: number | null;           // 漂移判定阈值（米），无基准点时为null
+  thresholdScaledBySpeed: boolean;    // 阈值是否按上报速度放宽
+  violatedConstraint: FeasibilityConstraint | null; // 违反的载具物理约束
+  basePoint: { lat: number; lng: number; radius: number } | null; // 判定时使用的基准点
+  consecutiveDriftCount: number;      // 判定后的连续漂移计数
+  triggeredRebuild: boolean;          // 该点是否触发了基准点重建
+  triggeredLinearRecovery: boolean;   // 该点是否触发了直线运动误判恢复
+  restoredByLinearMotion: boolean;    // 该点是否被（当时或之后的）直线运动误判恢复为有效点
+  windowSnapshot: WindowSnapshotPoint[]; // 判定完成后的滑动窗口快照
 }
 
 // ==================== 算法配置参数 ====================
@@ -66,12 +296,45 @@ export interface AlgorithmConfig {
   // 直线运动检测参数
   linearMotionAngleThreshold: number;    // 直线漂移点误判角度阈值（度，默认：30）
   
+  // 速度/航向辅助检测参数（使用设备上报的spd/cog）
+  driftDetectionMode: 'distance' | 'kinematic'; // 漂移检测模式（默认：'distance'，仅基于距离）
+  speedThresholdScale: number;           // 速度放宽系数，阈值 = 预期位移 × 系数（默认：1.5）
+  headingTolerance: number;              // 位移方向与上报航向的最大夹角（度，默认：60）
+  minHeadingSpeed: number;               // 启用航向检查的最低上报速度（km/h，默认：10）
+  
+  // 物理可行性检测参数
+  vehicleProfile: VehicleProfileName | 'custom' | 'none'; // 载具类型（默认：'none'，不检测）
+  maxSpeed: number;                      // 最大速度（km/h，默认：250，仅custom生效）
+  maxAcceleration: number;               // 最大加速度（米/秒²，默认：12，仅custom生效）
+  maxYawRate: number;                    // 最大转向角速度（度/秒，默认：90，仅custom生效）
+  minYawSpeed: number;                   // 检查转向角速度的最低速度（km/h，默认：20，仅custom生效）
+  
+  // 数据缺口参数
+  enableGapDetection: boolean;           // 是否检测数据缺口（默认：false，开启resetBasePointOnGap或gapInterpolation时同样检测）
+  gapThreshold: number;                  // 缺口判定时间间隔（毫秒，默认：30000）
+  resetBasePointOnGap: boolean;          // 缺口后是否清除基准点（默认：false）
+  gapInterpolation: GapInterpolationMethod; // 缺口插值方式（默认：'none'）
+  interpolationInterval: number;         // 插值目标采样间隔（毫秒，默认：1000）
+  
+  // 输入清洗参数
+  enableSanitation: boolean;             // 处理前是否清洗输入（默认：false）
+  
+  // 离线处理参数
+  processingMode: 'forward' | 'two-pass'; // 批量处理模式（默认：'forward'，仅正向）
+  twoPassVotingRule: TwoPassVotingRule;  // 双向处理投票规则（默认：'both'）
+  
   // 距离计算参数
   earthRadius: number;                   // 地球半径（米，默认：6371000）
   
+  // 卡尔曼滤波参数
+  kalmanProcessNoise: number;            // 过程噪声，加速度标准差（米/秒²，默认：1）
+  kalmanMeasurementNoise: number;        // 观测噪声，定位标准差（米，默认：10）
+  kalmanGateThreshold: number;           // 新息门限，马氏距离平方（默认：13.8，二自由度99.9%）
+  
   // 调试参数
   enableLogging: boolean;                // 是否启用日志输出（默认：false）
   logLevel: 'debug' | 'info' | 'warn' | 'error'; // 日志级别（默认：'info'）
+  enableDecisionTrace: boolean;          // 是否记录逐点判定追踪（默认：false）
 }
 
 /** 默认配置 */
@@ -81,9 +344,30 @@ export const DEFAULT_CONFIG: AlgorithmConfig = {
   maxDriftSequence: 10,
   driftThresholdMultiplier: 2,
   linearMotionAngleThreshold: 30,
+  driftDetectionMode: 'distance',
+  speedThresholdScale: 1.5,
+  headingTolerance: 60,
+  minHeadingSpeed: 10,
+  vehicleProfile: 'none',
+  maxSpeed: 250,
+  maxAcceleration: 12,
+  maxYawRate: 90,
+  minYawSpeed: 20,
+  enableGapDetection: false,
+  gapThreshold: 30000,
+  resetBasePointOnGap: false,
+  gapInterpolation: 'none',
+  interpolationInterval: 1000,
+  enableSanitation: false,
+  processingMode: 'forward',
+  twoPassVotingRule: 'both',
   earthRadius: 6371000,
+  kalmanProcessNoise: 1,
+  kalmanMeasurementNoise: 10,
+  kalmanGateThreshold: 13.8,
   enableLogging: false,
-  logLevel: 'info'
+  logLevel: 'info',
+  enableDecisionTrace: false
 };
 
 // ==================== 算法接口定义 ====================
@@ -155,10 +439,16 @@ export interface IDataConverter {
 /** 模拟数据生成器接口 */
 export interface ISimulationGenerator {
   /** 生成模拟测试数据 */
-  generateSimulatedData(originalData: GPSPoint[], options?: SimulationOptions): {
-    points: GPSPoint[];
-    markers: MarkerInfo[];
-  };
+  generateSimulatedData(originalData: GPSPoint[], options?: SimulationOptions): SimulationResult;
+}
+
+/**
+ * 噪声模型描述
+ * 内置类型：uniform、gauss-markov、heavy-tailed、satellite，参数定义见gpsNoiseModels
+ */
+export interface NoiseModelSpec {
+  type: string;                     // 噪声模型类型
+  params?: Record<string, number>;  // 模型参数（省略的参数使用默认值）
 }
 
 /** 模拟选项 */
@@ -167,8 +457,15 @@ export interface SimulationOptions {
   movingDriftCount?: number;        // 运动漂移位置数量
   tunnelCount?: number;             // 隧道数量
   speedScenarioCount?: number;      // 高速场景数量
+  multipathCount?: number;          // 城市峡谷多路径区段数量
+  coldStartCount?: number;          // 冷启动收敛次数（第一次从轨迹起点开始）
+  frozenFixCount?: number;          // 定位冻结区段数量
+  timestampGlitchCount?: number;    // 时间戳异常区段数量
+  scenarioIntensity?: Partial<Record<DriftType, number>>; // 各场景强度系数（默认1，放大偏移距离或影响点数）
+  noiseModels?: Partial<Record<DriftType, NoiseModelSpec>>; // 各场景的定位噪声模型（省略时使用内置的均匀随机偏移）
   driftDistanceRange?: [number, number]; // 漂移距离范围
   driftDistribution?: { ratio: number; range: [number, number] }[]; // 漂移距离分布
+  seed?: number;                    // 随机种子（整数），相同种子和输入产生相同结果；省略时随机生成
 }
 
 // ==================== 主算法包类 ====================
@@ -192,7 +489,7 @@ export class GPSAlgorithmPackage {
     this.algorithm = algorithm;
     this.dataConverter = dataConverter || new DefaultDataConverter();
     this.simulationGenerator = simulationGenerator || new DefaultSimulationGenerator();
-    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.config = assertValidAlgorithmConfig({ ...DEFAULT_CONFIG, ...config });
     
     // 设置算法配置
     this.algorithm.setConfig(this.config);
@@ -202,7 +499,7 @@ export class GPSAlgorithmPackage {
   
   /** 更新配置 */
   public updateConfig(newConfig: Partial<AlgorithmConfig>): void {
-    this.config = { ...this.config, ...newConfig };
+    this.config = assertValidAlgorithmConfig({ ...this.config, ...newConfig });
     this.algorithm.setConfig(this.config);
   }
   
@@ -224,7 +521,16 @@ export class GPSAlgorithmPackage {
     const startTime = Date.now();
     
     try {
-      const result = this.algorithm.processTrajectory(points);
+      const sanitation = this.config.enableSanitation ? this.sanitize(points) : null;
+      const inputPoints = sanitation ? sanitation.points : points;
+      
+      const result = this.config.processingMode === 'two-pass'
+        ? processTwoPass(this.algorithm, inputPoints, this.config.twoPassVotingRule)
+        : this.algorithm.processTrajectory(inputPoints);
+      
+      if (sanitation) {
+        result.sanitation = sanitation.report;
+      }
       
       // 补充统计信息
       result.statistics.processingTimeMs = Date.now() - startTime;
@@ -238,6 +544,64 @@ export class GPSAlgorithmPackage {
     }
   }
   
+  /**
+   * 清洗输入点：排序、去重、修复零值/NaN坐标与时钟跳变、处理里程哨兵值
+   * enableSanitation开启时processTrajectory会以默认清洗配置自动调用
+   */
+  public sanitize(points: GPSPoint[], config?: Partial<SanitationConfig>): SanitationResult {
+    const sanitizer = new GPSSanitizer({ earthRadius: this.config.earthRadius, ...config });
+    return sanitizer.sanitize(points);
+  }
+  
+  /**
+   * 离线双向处理GPS轨迹（不受processingMode影响）
+   * 用于历史数据的批量分析，结果的twoPass字段报告两遍判定不一致的点
+   */
+  public processTrajectoryTwoPass(
+    points: GPSPoint[],
+    votingRule: TwoPassVotingRule = this.config.twoPassVotingRule
+  ): ProcessingResult {
+    try {
+      return processTwoPass(this.algorithm, points, votingRule);
+    } catch (error) {
+      throw new Error(`GPS双向处理失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * 简化轨迹（默认简化处理结果中的有效点）
+   * 用于归档前削减点数，结果包含削减率和最大偏差
+   */
+  public simplifyTrajectory(
+    input: ProcessingResult | GPSPoint[],
+    options: SimplificationOptions
+  ): SimplificationResult {
+    const points = Array.isArray(input) ? input : input.processedPoints;
+    return simplifyTrajectory(points, { earthRadius: this.config.earthRadius, ...options });
+  }
+  
+  /** 检测停留点（默认检测处理结果中的有效点） */
+  public detectStayPoints(
+    input: ProcessingResult | GPSPoint[],
+    config?: Partial<StayPointConfig>
+  ): StayPoint[] {
+    const points = Array.isArray(input) ? input : input.processedPoints;
+    const detector = new GPSStayPointDetector({ earthRadius: this.config.earthRadius, ...config });
+    return detector.detect(points);
+  }
+  
+  /**
+   * 行程分段
+   * 传入处理结果时会统计每个行程时间范围内被过滤的点数；传入点数组时直接对其分段
+   */
+  public segmentTrips(
+    input: ProcessingResult | GPSPoint[],
+    config?: Partial<TripSegmentationConfig>
+  ): TripSegmentationResult {
+    const segmenter = new GPSTripSegmenter({ earthRadius: this.config.earthRadius, ...config });
+    return Array.isArray(input) ? segmenter.segmentPoints(input) : segmenter.segment(input);
+  }
+  
   /** 流式处理单个GPS点 */
   public processPoint(point: GPSPoint): boolean {
     return this.algorithm.processPoint(point);
@@ -276,7 +640,7 @@ export class GPSAlgorithmPackage {
   public generateSimulatedData(
     originalData: GPSPoint[], 
     options?: SimulationOptions
-  ): { points: GPSPoint[]; markers: MarkerInfo[] } {
+  ): SimulationResult {
     return this.simulationGenerator.generateSimulatedData(originalData, options);
   }
   
@@ -360,6 +724,32 @@ export class GPSAlgorithmPackage {
   }
 }
 
+// ==================== 辅助函数 ====================
+
+/** 提取基础字段及有效的速度、高度、航向、里程字段 */
+export function pickExtendedFields(point: ExtendedGPSPoint): ExtendedGPSPoint {
+  const result: ExtendedGPSPoint = {
+    lat: point.lat,
+    lng: point.lng,
+    timestamp: point.timestamp
+  };
+  
+  if (typeof point.spd === 'number' && Number.isFinite(point.spd)) {
+    result.spd = point.spd;
+  }
+  if (typeof point.alt === 'number' && Number.isFinite(point.alt)) {
+    result.alt = point.alt;
+  }
+  if (typeof point.cog === 'number' && Number.isFinite(point.cog)) {
+    result.cog = point.cog;
+  }
+  if (typeof point.mileage === 'number' && Number.isFinite(point.mileage)) {
+    result.mileage = point.mileage;
+  }
+  
+  return result;
+}
+
 // ==================== 默认实现类（占位符） ====================
 
 /** 默认数据转换器 */
@@ -388,19 +778,15 @@ class DefaultDataConverter implements IDataConverter {
   }
   
   fromExtendedFormat(points: ExtendedGPSPoint[]): GPSPoint[] {
-    return points.map(point => ({
-      lat: point.lat,
-      lng: point.lng,
-      timestamp: point.timestamp
-    }));
+    return points.map(point => pickExtendedFields(point));
   }
   
   toExtendedFormat(points: GPSPoint[]): ExtendedGPSPoint[] {
     return points.map(point => ({
       ...point,
-      spd: null,
-      alt: null,
-      cog: null
+      spd: (point as ExtendedGPSPoint).spd ?? null,
+      alt: (point as ExtendedGPSPoint).alt ?? null,
+      cog: (point as ExtendedGPSPoint).cog ?? null
     }));
   }
   
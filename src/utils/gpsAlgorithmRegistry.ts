@@ -0,0 +1,179 @@
+/**
+ * GPS算法注册表
+ * 算法实现以名称和版本注册，附带元数据和配置描述，调用方可按名称发现和创建算法
+ */
+
+import { IGPSAlgorithm, AlgorithmConfig } from './gpsAlgorithmPackage';
+import { GpsTrajectoryAnalyzer } from './gpsTrajectoryAnalyzer';
+import { GpsKalmanFilter } from './gpsKalmanFilter';
+import { GPSCoreAlgorithm } from './gpsCore';
+import { AlgorithmConfigSchema, pickConfigSchema } from './gpsConfigSchema';
+
+// ==================== 类型定义 ====================
+
+/** 算法工厂 */
+export type AlgorithmFactory = (config?: Partial<AlgorithmConfig>) => IGPSAlgorithm;
+
+/** 算法注册信息 */
+export interface AlgorithmRegistration {
+  name: string;                   // 注册名称（如'analyzer'、'kalman'）
+  factory: AlgorithmFactory;
+  configSchema: AlgorithmConfigSchema; // 算法使用的配置项
+}
+
+/** 已注册算法的元数据 */
+export interface AlgorithmInfo {
+  name: string;                   // 注册名称
+  version: string;                // 算法版本（getVersion）
+  displayName: string;            // 算法名称（getName）
+  description: string;            // 算法描述（getDescription）
+  configSchema: AlgorithmConfigSchema;
+}
+
+/** 注册表条目 */
+interface RegistryEntry {
+  info: AlgorithmInfo;
+  factory: AlgorithmFactory;
+}
+
+/** 默认算法名称 */
+export const DEFAULT_ALGORITHM = 'analyzer';
+
+/** 算法包层面处理的配置项（对所有算法生效） */
+const PACKAGE_CONFIG_KEYS: (keyof AlgorithmConfig)[] = [
+  'enableSanitation', 'processingMode', 'twoPassVotingRule'
+];
+
+// ==================== 注册表 ====================
+
+/** 注册表：名称 -> 各版本条目（按注册顺序） */
+const registry = new Map<string, RegistryEntry[]>();
+
+/**
+ * 注册算法
+ * 元数据通过工厂创建的实例读取；同名同版本重复注册时覆盖原条目
+ */
+export function registerAlgorithm(registration: AlgorithmRegistration): AlgorithmInfo {
+  if (!registration.name) {
+    throw new Error('算法注册名称不能为空');
+  }
+
+  const probe = registration.factory();
+  const info: AlgorithmInfo = {
+    name: registration.name,
+    version: probe.getVersion(),
+    displayName: probe.getName(),
+    description: probe.getDescription(),
+    configSchema: registration.configSchema
+  };
+
+  const entries = (registry.get(registration.name) || []).filter(entry => entry.info.version !== info.version);
+  entries.push({ info, factory: registration.factory });
+  registry.set(registration.name, entries);
+
+  return info;
+}
+
+/**
+ * 注销算法
+ * @param version 指定版本，省略时注销该名称下的所有版本
+ * @returns 是否有条目被注销
+ */
+export function unregisterAlgorithm(name: string, version?: string): boolean {
+  const entries = registry.get(name);
+  if (!entries) {
+    return false;
+  }
+
+  if (version === undefined) {
+    return registry.delete(name);
+  }
+
+  const remaining = entries.filter(entry => entry.info.version !== version);
+  if (remaining.length === entries.length) {
+    return false;
+  }
+
+  if (remaining.length > 0) {
+    registry.set(name, remaining);
+  } else {
+    registry.delete(name);
+  }
+  return true;
+}
+
+/** 列出所有已注册算法（每个名称下的每个版本各一条） */
+export function listAlgorithms(): AlgorithmInfo[] {
+  return Array.from(registry.values()).flatMap(entries => entries.map(entry => ({ ...entry.info })));
+}
+
+/**
+ * 获取算法元数据
+ * @param version 指定版本，省略时取最后注册的版本
+ */
+export function getAlgorithmInfo(name: string, version?: string): AlgorithmInfo | null {
+  const entry = findEntry(name, version);
+  return entry ? { ...entry.info } : null;
+}
+
+/**
+ * 按名称创建算法实例
+ * @param version 指定版本，省略时取最后注册的版本
+ */
+export function createAlgorithm(name: string, config?: Partial<AlgorithmConfig>, version?: string): IGPSAlgorithm {
+  const entry = findEntry(name, version);
+  if (!entry) {
+    const available = listAlgorithms().map(info => `${info.name}@${info.version}`).join(', ');
+    throw new Error(`未注册的算法: ${version ? `${name}@${version}` : name}（可用: ${available}）`);
+  }
+
+  return entry.factory(config);
+}
+
+/** 查找注册表条目 */
+function findEntry(name: string, version?: string): RegistryEntry | null {
+  const entries = registry.get(name);
+  if (!entries || entries.length === 0) {
+    return null;
+  }
+
+  if (version === undefined) {
+    return entries[entries.length - 1];
+  }
+
+  return entries.find(entry => entry.info.version === version) || null;
+}
+
+// ==================== 内置算法 ====================
+
+registerAlgorithm({
+  name: 'analyzer',
+  factory: config => new GpsTrajectoryAnalyzer(config),
+  configSchema: pickConfigSchema([
+    'windowSize', 'validityPeriod', 'maxDriftSequence', 'driftThresholdMultiplier', 'linearMotionAngleThreshold',
+    'driftDetectionMode', 'speedThresholdScale', 'headingTolerance', 'minHeadingSpeed',
+    'vehicleProfile', 'maxSpeed', 'maxAcceleration', 'maxYawRate', 'minYawSpeed',
+    'enableGapDetection', 'gapThreshold', 'resetBasePointOnGap', 'gapInterpolation', 'interpolationInterval',
+    ...PACKAGE_CONFIG_KEYS,
+    'earthRadius', 'enableLogging', 'logLevel', 'enableDecisionTrace'
+  ])
+});
+
+registerAlgorithm({
+  name: 'kalman',
+  factory: config => new GpsKalmanFilter(config),
+  configSchema: pickConfigSchema([
+    'kalmanProcessNoise', 'kalmanMeasurementNoise', 'kalmanGateThreshold', 'maxDriftSequence', 'validityPeriod',
+    ...PACKAGE_CONFIG_KEYS,
+    'earthRadius', 'enableLogging', 'logLevel'
+  ])
+});
+
+registerAlgorithm({
+  name: 'core',
+  factory: config => new GPSCoreAlgorithm(config),
+  configSchema: pickConfigSchema([
+    'windowSize', 'validityPeriod', 'maxDriftSequence', 'driftThresholdMultiplier', 'linearMotionAngleThreshold',
+    ...PACKAGE_CONFIG_KEYS
+  ])
+});
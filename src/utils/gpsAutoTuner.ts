@@ -0,0 +1,437 @@
+/**
+ * GPS算法参数自动调优
+ * 在带标注的数据集（模拟数据或人工标注）上搜索AlgorithmConfig参数空间，
+ * 支持网格搜索、随机搜索和坐标下降，按选定目标返回最优配置和完整试验表
+ */
+
+import { AlgorithmConfig, GPSPoint, IGPSAlgorithm, DEFAULT_CONFIG } from './gpsAlgorithmPackage';
+import { GpsTrajectoryAnalyzer } from './gpsTrajectoryAnalyzer';
+import { ALGORITHM_CONFIG_FIELDS, validateAlgorithmConfig } from './gpsConfigSchema';
+import { DetectionMetrics, computeDetectionMetrics, mergeDetectionMetrics } from './gpsEvaluation';
+
+// ==================== 类型定义 ====================
+
+/** 带标注的数据集 */
+export interface LabelledDataset {
+  name?: string;
+  points: GPSPoint[];             // 按时间排序的输入点
+  driftLabels: boolean[];         // 与points一一对应，true表示该点是漂移点（应被过滤）
+}
+
+/** 搜索策略 */
+export type TuningStrategy = 'grid' | 'random' | 'coordinate-descent';
+
+/** 可调优的数值型配置项 */
+export type TunableConfigKey = {
+  [K in keyof AlgorithmConfig]: AlgorithmConfig[K] extends number ? K : never
+}[keyof AlgorithmConfig];
+
+/** 调优参数 */
+export interface TuningParameter {
+  key: TunableConfigKey;
+  values?: number[];              // 候选取值（给出时忽略min/max/step）
+  min?: number;                   // 最小值（默认：配置描述中的最小值）
+  max?: number;                   // 最大值（默认：配置描述中的最大值）
+  step?: number;                  // 步长（默认：配置描述中的步长）
+}
+
+/** 检测指标 */
+export type TuningMetric = 'f1' | 'precision' | 'recall' | 'accuracy' | 'falseDropRate';
+
+/** 调优目标 */
+export interface TuningObjective {
+  metric: TuningMetric;           // 优化的指标（falseDropRate越小越好，其余越大越好）
+  maxFalseDropRate?: number;      // 误删率上限，超出的试验视为不可行
+}
+
+/** 单次试验 */
+export interface TuningTrial {
+  index: number;                  // 试验序号
+  parameters: Partial<AlgorithmConfig>; // 本次试验的参数取值
+  metrics: DetectionMetrics | null; // 所有数据集合并的指标（配置无效时为null）
+  datasetMetrics: DetectionMetrics[]; // 各数据集的指标
+  score: number;                  // 目标得分（越大越好，不可行为-Infinity）
+  feasible: boolean;              // 是否满足约束且配置有效
+  error?: string;                 // 配置无效时的错误信息
+  processingTimeMs: number;
+}
+
+/** 调优配置 */
+export interface AutoTuneConfig {
+  strategy: TuningStrategy;
+  parameters: TuningParameter[];
+  objective: TuningObjective;
+  baseConfig: Partial<AlgorithmConfig>; // 未调优配置项的取值，也是坐标下降的起点
+  maxTrials: number;              // 最大试验次数（随机搜索即采样次数）
+  maxIterations: number;          // 坐标下降最大轮数
+  random: () => number;           // 随机数生成器（随机搜索使用，返回[0,1)）
+  algorithmFactory: (config: AlgorithmConfig) => IGPSAlgorithm; // 被调优的算法
+}
+
+/** 默认调优配置 */
+export const DEFAULT_AUTO_TUNE_CONFIG: AutoTuneConfig = {
+  strategy: 'grid',
+  parameters: [
+    { key: 'windowSize', values: [5, 8, 10, 12, 15, 20] },
+    { key: 'driftThresholdMultiplier', values: [1.5, 2, 2.5, 3, 4] }
+  ],
+  objective: { metric: 'f1' },
+  baseConfig: {},
+  maxTrials: 200,
+  maxIterations: 5,
+  random: Math.random,
+  algorithmFactory: config => new GpsTrajectoryAnalyzer(config)
+};
+
+/** 调优结果 */
+export interface AutoTuneResult {
+  strategy: TuningStrategy;
+  objective: TuningObjective;
+  bestConfig: AlgorithmConfig | null; // 最优完整配置（没有可行试验时为null）
+  bestTrial: TuningTrial | null;
+  trials: TuningTrial[];          // 全部试验（按执行顺序）
+  totalTimeMs: number;
+}
+
+/** 参数搜索过程：产出待评估的参数，接收其试验结果 */
+type ParameterSearch = Generator<Partial<AlgorithmConfig>, void, TuningTrial>;
+
+/** 让出线程，等待事件循环处理其他任务 */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+// ==================== 自动调优器 ====================
+
+/**
+ * 参数自动调优器
+ * 每次试验对每个数据集新建算法实例，逐点调用processPoint，以返回false作为"判为漂移"
+ */
+export class GPSAutoTuner {
+  private config: AutoTuneConfig;
+
+  constructor(config?: Partial<AutoTuneConfig>) {
+    this.config = { ...DEFAULT_AUTO_TUNE_CONFIG, ...config };
+
+    if (this.config.parameters.length === 0) {
+      throw new Error('调优参数不能为空');
+    }
+    if (!(this.config.maxTrials >= 1)) {
+      throw new Error(`最大试验次数必须至少为1: ${this.config.maxTrials}`);
+    }
+    for (const parameter of this.config.parameters) {
+      if (this.getCandidates(parameter).length === 0) {
+        throw new Error(`调优参数没有候选取值: ${parameter.key}`);
+      }
+    }
+  }
+
+  /** 获取当前配置 */
+  getConfig(): AutoTuneConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * 在数据集上搜索最优配置
+   * @param datasets 一个或多个带标注的数据集，指标按所有数据集的点合并计算
+   */
+  tune(datasets: LabelledDataset[]): AutoTuneResult {
+    this.validateDatasets(datasets);
+
+    const startTime = Date.now();
+    const trials: TuningTrial[] = [];
+    const search = this.createSearch(trials);
+
+    let step = search.next();
+    while (!step.done) {
+      const trial = this.evaluate(datasets, step.value, trials.length);
+      trials.push(trial);
+      step = search.next(trial);
+    }
+
+    return this.buildResult(trials, startTime);
+  }
+
+  /**
+   * 异步搜索最优配置，每次试验后让出线程，避免长时间阻塞界面
+   * @param datasets 一个或多个带标注的数据集，指标按所有数据集的点合并计算
+   * @param yieldControl 试验之间的让出方式（默认setTimeout(0)）
+   */
+  async tuneAsync(datasets: LabelledDataset[], yieldControl: () => Promise<void> = yieldToEventLoop): Promise<AutoTuneResult> {
+    this.validateDatasets(datasets);
+
+    const startTime = Date.now();
+    const trials: TuningTrial[] = [];
+    const search = this.createSearch(trials);
+
+    let step = search.next();
+    while (!step.done) {
+      const trial = this.evaluate(datasets, step.value, trials.length);
+      trials.push(trial);
+      await yieldControl();
+      step = search.next(trial);
+    }
+
+    return this.buildResult(trials, startTime);
+  }
+
+  /** 校验数据集 */
+  private validateDatasets(datasets: LabelledDataset[]): void {
+    if (datasets.length === 0) {
+      throw new Error('调优至少需要一个数据集');
+    }
+    for (const dataset of datasets) {
+      if (dataset.points.length !== dataset.driftLabels.length) {
+        throw new Error(`数据集标注数量与点数不一致: ${dataset.name || '未命名'}`);
+      }
+    }
+  }
+
+  /**
+   * 按策略创建搜索过程
+   * 搜索过程逐次产出待评估的参数，并接收该参数的试验结果；trials由调用方在评估后追加
+   */
+  private createSearch(trials: TuningTrial[]): ParameterSearch {
+    switch (this.config.strategy) {
+      case 'grid':
+        return this.runGridSearch(trials);
+      case 'random':
+        return this.runRandomSearch(trials);
+      case 'coordinate-descent':
+        return this.runCoordinateDescent(trials);
+      default:
+        throw new Error(`不支持的搜索策略: ${this.config.strategy}`);
+    }
+  }
+
+  /** 汇总试验结果 */
+  private buildResult(trials: TuningTrial[], startTime: number): AutoTuneResult {
+    const bestTrial = trials.reduce<TuningTrial | null>(
+      (best, trial) => (trial.feasible && (!best || trial.score > best.score) ? trial : best),
+      null
+    );
+
+    return {
+      strategy: this.config.strategy,
+      objective: { ...this.config.objective },
+      bestConfig: bestTrial ? this.buildConfig(bestTrial.parameters) : null,
+      bestTrial,
+      trials,
+      totalTimeMs: Date.now() - startTime
+    };
+  }
+
+  /**
+   * 评估单组参数
+   * @param parameters 调优参数取值（与baseConfig合并）
+   */
+  evaluate(datasets: LabelledDataset[], parameters: Partial<AlgorithmConfig>, index = 0): TuningTrial {
+    const startTime = Date.now();
+    const config = this.buildConfig(parameters);
+    const errors = validateAlgorithmConfig(config);
+
+    if (errors.length > 0) {
+      return {
+        index,
+        parameters: { ...parameters },
+        metrics: null,
+        datasetMetrics: [],
+        score: -Infinity,
+        feasible: false,
+        error: errors.map(error => error.message).join('; '),
+        processingTimeMs: Date.now() - startTime
+      };
+    }
+
+    const datasetMetrics = datasets.map(dataset => {
+      const algorithm = this.config.algorithmFactory(config);
+      const predictions = dataset.points.map(point => !algorithm.processPoint(point));
+      return computeDetectionMetrics(predictions, dataset.driftLabels);
+    });
+    const metrics = mergeDetectionMetrics(datasetMetrics);
+    const { metric, maxFalseDropRate } = this.config.objective;
+    const feasible = maxFalseDropRate === undefined || metrics.falseDropRate <= maxFalseDropRate;
+
+    return {
+      index,
+      parameters: { ...parameters },
+      metrics,
+      datasetMetrics,
+      score: feasible ? (metric === 'falseDropRate' ? -metrics.falseDropRate : metrics[metric]) : -Infinity,
+      feasible,
+      processingTimeMs: Date.now() - startTime
+    };
+  }
+
+  // ==================== 搜索策略 ====================
+
+  /** 网格搜索：遍历所有候选取值组合（超过maxTrials时截断） */
+  private *runGridSearch(trials: TuningTrial[]): ParameterSearch {
+    const candidates = this.config.parameters.map(parameter => this.getCandidates(parameter));
+    const indices = new Array<number>(candidates.length).fill(0);
+
+    while (trials.length < this.config.maxTrials) {
+      const parameters: Partial<AlgorithmConfig> = {};
+      this.config.parameters.forEach((parameter, i) => {
+        parameters[parameter.key] = candidates[i][indices[i]];
+      });
+      yield parameters;
+
+      // 按里程表方式推进组合索引
+      let position = indices.length - 1;
+      while (position >= 0) {
+        indices[position]++;
+        if (indices[position] < candidates[position].length) {
+          break;
+        }
+        indices[position] = 0;
+        position--;
+      }
+      if (position < 0) {
+        break;
+      }
+    }
+  }
+
+  /** 随机搜索：每个参数独立均匀采样，共maxTrials次 */
+  private *runRandomSearch(trials: TuningTrial[]): ParameterSearch {
+    while (trials.length < this.config.maxTrials) {
+      const parameters: Partial<AlgorithmConfig> = {};
+      for (const parameter of this.config.parameters) {
+        parameters[parameter.key] = this.sampleValue(parameter);
+      }
+      yield parameters;
+    }
+  }
+
+  /**
+   * 坐标下降：从baseConfig出发，每轮依次对单个参数尝试全部候选取值并固定为最优值，
+   * 一轮内没有改进或达到maxIterations、maxTrials时停止
+   */
+  private *runCoordinateDescent(trials: TuningTrial[]): ParameterSearch {
+    const maxTrials = this.config.maxTrials;
+    const evaluated = new Map<string, TuningTrial>();
+    const evaluateOnce = function* (parameters: Partial<AlgorithmConfig>): Generator<Partial<AlgorithmConfig>, TuningTrial | null, TuningTrial> {
+      const key = JSON.stringify(parameters);
+      const cached = evaluated.get(key);
+      if (cached) {
+        return cached;
+      }
+      if (trials.length >= maxTrials) {
+        return null;
+      }
+
+      const trial = yield parameters;
+      evaluated.set(key, trial);
+      return trial;
+    };
+
+    const current: Partial<AlgorithmConfig> = {};
+    for (const parameter of this.config.parameters) {
+      current[parameter.key] = this.getStartValue(parameter);
+    }
+
+    let best = yield* evaluateOnce(current);
+    if (!best) {
+      return;
+    }
+
+    for (let iteration = 0; iteration < this.config.maxIterations; iteration++) {
+      let improved = false;
+
+      for (const parameter of this.config.parameters) {
+        for (const value of this.getCandidates(parameter)) {
+          const trial = yield* evaluateOnce({ ...current, [parameter.key]: value });
+          if (!trial) {
+            return;
+          }
+          if (trial.score > best.score) {
+            best = trial;
+            current[parameter.key] = value;
+            improved = true;
+          }
+        }
+      }
+
+      if (!improved) {
+        break;
+      }
+    }
+  }
+
+  // ==================== 内部方法 ====================
+
+  /** 合并为完整配置 */
+  private buildConfig(parameters: Partial<AlgorithmConfig>): AlgorithmConfig {
+    return { ...DEFAULT_CONFIG, ...this.config.baseConfig, ...parameters };
+  }
+
+  /** 获取参数的取值范围 */
+  private getRange(parameter: TuningParameter): { min: number; max: number; step: number } {
+    const field = ALGORITHM_CONFIG_FIELDS[parameter.key];
+    return {
+      min: parameter.min ?? field.min ?? 0,
+      max: parameter.max ?? field.max ?? 0,
+      step: parameter.step ?? field.step ?? 1
+    };
+  }
+
+  /** 获取参数的候选取值（离散化） */
+  private getCandidates(parameter: TuningParameter): number[] {
+    if (parameter.values) {
+      return [...parameter.values];
+    }
+
+    const { min, max, step } = this.getRange(parameter);
+    if (!(step > 0) || max < min) {
+      return [];
+    }
+
+    const values: number[] = [];
+    const count = Math.floor((max - min) / step + 1e-9);
+    for (let i = 0; i <= count; i++) {
+      // 截断有效位数，消除浮点累积误差
+      values.push(Number((min + i * step).toPrecision(12)));
+    }
+    return values;
+  }
+
+  /** 随机采样一个取值 */
+  private sampleValue(parameter: TuningParameter): number {
+    if (parameter.values) {
+      return parameter.values[Math.floor(this.config.random() * parameter.values.length)];
+    }
+
+    const { min, max } = this.getRange(parameter);
+    const value = min + this.config.random() * (max - min);
+    return ALGORITHM_CONFIG_FIELDS[parameter.key].integer ? Math.round(value) : value;
+  }
+
+  /** 坐标下降的起始取值：baseConfig中的值，否则取最接近默认配置的候选值 */
+  private getStartValue(parameter: TuningParameter): number {
+    const candidates = this.getCandidates(parameter);
+    const preferred = (this.config.baseConfig[parameter.key] ?? DEFAULT_CONFIG[parameter.key]) as number;
+
+    return candidates.reduce((closest, value) =>
+      Math.abs(value - preferred) < Math.abs(closest - preferred) ? value : closest
+    );
+  }
+}
+
+// ==================== 数据集工具 ====================
+
+/**
+ * 由原始轨迹和模拟轨迹生成标注数据集
+ * 模拟轨迹中坐标和时间戳与原始轨迹完全一致的点标注为正常点，其余（新增或被偏移的点）标注为漂移点
+ */
+export function labelSimulatedDataset(original: GPSPoint[], simulated: GPSPoint[], name?: string): LabelledDataset {
+  const originalKeys = new Set(original.map(point => `${point.lat},${point.lng},${point.timestamp}`));
+
+  return {
+    name,
+    points: simulated,
+    driftLabels: simulated.map(point => !originalKeys.has(`${point.lat},${point.lng},${point.timestamp}`))
+  };
+}
+
+export default GPSAutoTuner;
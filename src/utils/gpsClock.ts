@@ -0,0 +1,85 @@
+/**
+ * 时钟抽象
+ * 算法中的"当前时间"（基准点创建时间、有效期、年龄等）统一由时钟提供。
+ * 默认使用数据时钟，时间跟随已处理点的时间戳，保证历史数据回放结果确定
+ */
+
+/** 时钟接口 */
+export interface GPSClock {
+  /** 当前时间（毫秒） */
+  now(): number;
+
+  /** 通知时钟已处理到某个数据时间戳（数据时钟据此推进，其他时钟可忽略） */
+  observe(timestamp: number): void;
+
+  /** 重置时钟状态（算法reset时调用） */
+  reset(): void;
+}
+
+/**
+ * 数据时钟
+ * 当前时间为已观察到的最大数据时间戳，尚未观察到数据时为0
+ */
+export class DataClock implements GPSClock {
+  private current: number | null = null;
+
+  now(): number {
+    return this.current ?? 0;
+  }
+
+  observe(timestamp: number): void {
+    if (Number.isFinite(timestamp) && (this.current === null || timestamp > this.current)) {
+      this.current = timestamp;
+    }
+  }
+
+  reset(): void {
+    this.current = null;
+  }
+}
+
+/** 系统时钟（墙上时间），适用于需要按真实时间判断空闲等运维场景 */
+export class SystemClock implements GPSClock {
+  now(): number {
+    return Date.now();
+  }
+
+  observe(): void {
+    // 系统时钟不跟随数据时间
+  }
+
+  reset(): void {
+    // 无状态
+  }
+}
+
+/** 手动时钟，时间完全由调用方控制，适用于测试和外部驱动的回放 */
+export class ManualClock implements GPSClock {
+  private time: number;
+
+  constructor(time = 0) {
+    this.time = time;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  /** 设置当前时间 */
+  set(time: number): void {
+    this.time = time;
+  }
+
+  /** 推进时间 */
+  advance(ms: number): void {
+    this.time += ms;
+  }
+
+  observe(): void {
+    // 手动时钟不跟随数据时间
+  }
+
+  reset(): void {
+    // 时间由调用方控制，reset不改变
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * 算法配置预设
+ * 按载具和场景命名的配置组合，预设可继承其他预设并只覆盖差异项；
+ * 支持内置预设和用户自定义预设，可按名称解析为完整配置并与其他预设比较差异
+ */
+
+import { AlgorithmConfig, DEFAULT_CONFIG } from './gpsAlgorithmPackage';
+import { assertValidAlgorithmConfig } from './gpsConfigSchema';
+
+// ==================== 类型定义 ====================
+
+/** 配置预设 */
+export interface ConfigPreset {
+  name: string;                   // 预设名称（唯一）
+  label: string;                  // 展示名称
+  description: string;            // 适用场景说明
+  extends?: string;               // 继承的预设名称（省略时基于DEFAULT_CONFIG）
+  config: Partial<AlgorithmConfig>; // 相对父预设覆盖的配置项
+}
+
+/** 预设信息 */
+export interface ConfigPresetInfo extends ConfigPreset {
+  builtin: boolean;               // 是否为内置预设
+}
+
+/** 配置差异项 */
+export interface ConfigDifference {
+  key: keyof AlgorithmConfig;
+  from: AlgorithmConfig[keyof AlgorithmConfig];
+  to: AlgorithmConfig[keyof AlgorithmConfig];
+}
+
+/** 默认预设名称（即DEFAULT_CONFIG） */
+export const DEFAULT_PRESET = 'default';
+
+// ==================== 内置预设 ====================
+
+/** 内置预设 */
+export const BUILTIN_PRESETS: ConfigPreset[] = [
+  {
+    name: DEFAULT_PRESET,
+    label: '默认',
+    description: '算法默认配置',
+    config: {}
+  },
+  {
+    name: 'urban-car',
+    label: '城市小汽车',
+    description: '城市道路行驶的小汽车，频繁转弯和启停，启用速度/航向辅助检测',
+    config: {
+      validityPeriod: 30000,
+      maxDriftSequence: 8,
+      driftDetectionMode: 'kinematic',
+      vehicleProfile: 'car'
+    }
+  },
+  {
+    name: 'highway-truck',
+    label: '高速货车',
+    description: '高速公路行驶的货车，速度高且转向平缓，窗口更大、直线判定更严格',
+    config: {
+      windowSize: 15,
+      validityPeriod: 60000,
+      driftThresholdMultiplier: 2.5,
+      linearMotionAngleThreshold: 15,
+      driftDetectionMode: 'kinematic',
+      headingTolerance: 45,
+      minHeadingSpeed: 30,
+      vehicleProfile: 'truck'
+    }
+  },
+  {
+    name: 'pedestrian',
+    label: '步行',
+    description: '步行轨迹，速度低、方向变化大，放宽漂移倍数和直线角度',
+    config: {
+      windowSize: 8,
+      validityPeriod: 60000,
+      maxDriftSequence: 6,
+      driftThresholdMultiplier: 3,
+      linearMotionAngleThreshold: 60,
+      headingTolerance: 90,
+      minHeadingSpeed: 3,
+      vehicleProfile: 'pedestrian'
+    }
+  },
+  {
+    name: 'stationary-asset',
+    label: '固定资产',
+    description: '基本不移动的设备（集装箱、停放车辆等），基准点长期有效，位移基本都视为漂移，超过10分钟无上报记为数据缺口',
+    config: {
+      windowSize: 20,
+      validityPeriod: 3600000,
+      maxDriftSequence: 30,
+      driftThresholdMultiplier: 1.5,
+      vehicleProfile: 'custom',
+      maxSpeed: 10,
+      maxAcceleration: 1,
+      maxYawRate: 360,
+      minYawSpeed: 5,
+      enableGapDetection: true,
+      gapThreshold: 600000
+    }
+  },
+  {
+    name: 'tunnel-heavy',
+    label: '多隧道路线',
+    description: '隧道和地下通道较多的城市路线，基准点有效期更长以跨越信号中断，连续漂移更早触发重建，超过1分钟的信号中断记为数据缺口',
+    extends: 'urban-car',
+    config: {
+      validityPeriod: 180000,
+      maxDriftSequence: 5,
+      enableGapDetection: true,
+      gapThreshold: 60000
+    }
+  }
+];
+
+// ==================== 预设注册表 ====================
+
+/** 预设注册表：名称 -> 预设 */
+const presets = new Map<string, ConfigPresetInfo>();
+
+/**
+ * 注册用户自定义预设
+ * 父预设必须已存在，解析后的完整配置必须通过校验；同名的自定义预设会被覆盖
+ * @returns 解析后的完整配置
+ */
+export function registerPreset(preset: ConfigPreset): AlgorithmConfig {
+  return addPreset(preset, false);
+}
+
+/**
+ * 注销用户自定义预设
+ * @returns 是否注销成功
+ */
+export function unregisterPreset(name: string): boolean {
+  const preset = presets.get(name);
+  if (!preset) {
+    return false;
+  }
+  if (preset.builtin) {
+    throw new Error(`内置预设不能注销: ${name}`);
+  }
+
+  const child = Array.from(presets.values()).find(item => item.extends === name);
+  if (child) {
+    throw new Error(`预设 ${name} 被 ${child.name} 继承，不能注销`);
+  }
+
+  return presets.delete(name);
+}
+
+/** 列出所有预设（内置在前，按注册顺序） */
+export function listPresets(): ConfigPresetInfo[] {
+  return Array.from(presets.values()).map(preset => ({ ...preset, config: { ...preset.config } }));
+}
+
+/** 获取预设定义 */
+export function getPreset(name: string): ConfigPresetInfo | null {
+  const preset = presets.get(name);
+  return preset ? { ...preset, config: { ...preset.config } } : null;
+}
+
+/**
+ * 解析预设为完整配置
+ * 从DEFAULT_CONFIG开始，沿继承链由根到叶依次覆盖
+ */
+export function resolvePreset(name: string): AlgorithmConfig {
+  return getInheritanceChain(name).reduce<AlgorithmConfig>(
+    (config, preset) => ({ ...config, ...preset.config }),
+    { ...DEFAULT_CONFIG }
+  );
+}
+
+/** 获取预设的继承链（由根到叶） */
+export function getInheritanceChain(name: string): ConfigPresetInfo[] {
+  const chain: ConfigPresetInfo[] = [];
+  let current: string | undefined = name;
+
+  while (current !== undefined) {
+    const preset = presets.get(current);
+    if (!preset) {
+      throw new Error(`未知的配置预设: ${current}`);
+    }
+    if (chain.includes(preset)) {
+      throw new Error(`配置预设存在循环继承: ${name}`);
+    }
+
+    chain.unshift(preset);
+    current = preset.extends;
+  }
+
+  return chain;
+}
+
+// ==================== 差异比较 ====================
+
+/**
+ * 比较两份配置的差异
+ * @returns 取值不同的配置项（按AlgorithmConfig字段顺序）
+ */
+export function diffConfigs(from: Partial<AlgorithmConfig>, to: Partial<AlgorithmConfig>): ConfigDifference[] {
+  const fullFrom: AlgorithmConfig = { ...DEFAULT_CONFIG, ...from };
+  const fullTo: AlgorithmConfig = { ...DEFAULT_CONFIG, ...to };
+
+  return (Object.keys(DEFAULT_CONFIG) as (keyof AlgorithmConfig)[])
+    .filter(key => fullFrom[key] !== fullTo[key])
+    .map(key => ({ key, from: fullFrom[key], to: fullTo[key] }));
+}
+
+/**
+ * 比较两个预设解析后的配置差异
+ * @param base 基准预设（默认：'default'）
+ */
+export function diffPresets(name: string, base: string = DEFAULT_PRESET): ConfigDifference[] {
+  return diffConfigs(resolvePreset(base), resolvePreset(name));
+}
+
+// ==================== 内部方法 ====================
+
+/** 加入注册表并校验 */
+function addPreset(preset: ConfigPreset, builtin: boolean): AlgorithmConfig {
+  if (!preset.name) {
+    throw new Error('配置预设名称不能为空');
+  }
+
+  const existing = presets.get(preset.name);
+  if (existing && existing.builtin) {
+    throw new Error(`不能覆盖内置预设: ${preset.name}`);
+  }
+  if (preset.extends !== undefined && !presets.has(preset.extends)) {
+    throw new Error(`配置预设 ${preset.name} 继承的预设不存在: ${preset.extends}`);
+  }
+
+  const info: ConfigPresetInfo = { ...preset, config: { ...preset.config }, builtin };
+  presets.set(preset.name, info);
+
+  try {
+    return assertValidAlgorithmConfig(resolvePreset(preset.name));
+  } catch (error) {
+    // 校验失败时恢复原状态
+    if (existing) {
+      presets.set(preset.name, existing);
+    } else {
+      presets.delete(preset.name);
+    }
+    throw error;
+  }
+}
+
+BUILTIN_PRESETS.forEach(preset => addPreset(preset, true));
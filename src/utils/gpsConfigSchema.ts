@@ -0,0 +1,220 @@
+/**
+ * 算法配置描述与校验
+ * 描述AlgorithmConfig每个配置项的类型、取值范围和展示信息，供算法注册表和参数界面使用；
+ * 算法在构造和setConfig时按此描述及跨字段规则校验配置
+ */
+
+import { AlgorithmConfig } from './gpsAlgorithmPackage';
+
+/** 配置项描述 */
+export interface AlgorithmConfigField {
+  key: keyof AlgorithmConfig;
+  label: string;                  // 展示名称
+  type: 'number' | 'boolean' | 'enum';
+  group: string;                  // 所属分组
+  unit?: string;                  // 单位
+  min?: number;                   // 最小值（数值型）
+  max?: number;                   // 最大值（数值型）
+  step?: number;                  // 步长（数值型）
+  integer?: boolean;              // 是否必须为整数（数值型）
+  options?: string[];             // 可选值（枚举型）
+}
+
+/** 配置描述（一组配置项） */
+export type AlgorithmConfigSchema = AlgorithmConfigField[];
+
+/** 配置校验错误类型 */
+export type ConfigValidationErrorCode =
+  | 'unknown_field'   // 未知配置项
+  | 'invalid_type'    // 类型错误（含NaN、Infinity）
+  | 'out_of_range'    // 超出取值范围
+  | 'not_integer'     // 应为整数
+  | 'invalid_option'  // 不在可选值中
+  | 'conflict';       // 违反跨字段规则
+
+/** 配置校验错误 */
+export interface ConfigValidationError {
+  field: string;                  // 出错的配置项（跨字段规则为首个相关配置项）
+  code: ConfigValidationErrorCode;
+  message: string;                // 可读的错误描述
+  value: unknown;                 // 出错的取值
+  relatedFields?: string[];       // 跨字段规则涉及的其他配置项
+}
+
+/** 配置校验失败异常，errors包含全部校验错误 */
+export class AlgorithmConfigError extends Error {
+  readonly errors: ConfigValidationError[];
+
+  constructor(errors: ConfigValidationError[]) {
+    super(`算法配置校验失败: ${errors.map(error => error.message).join('; ')}`);
+    this.name = 'AlgorithmConfigError';
+    this.errors = errors;
+  }
+}
+
+/** 跨字段规则 */
+interface CrossFieldRule {
+  fields: (keyof AlgorithmConfig)[];
+  /** 规则是否适用（所有相关配置项都已给出时才检查） */
+  applies: (config: AlgorithmConfig) => boolean;
+  /** 是否满足规则 */
+  check: (config: AlgorithmConfig) => boolean;
+  message: (config: AlgorithmConfig) => string;
+}
+
+/** AlgorithmConfig全部配置项描述 */
+export const ALGORITHM_CONFIG_FIELDS: Record<keyof AlgorithmConfig, AlgorithmConfigField> = {
+  windowSize: { key: 'windowSize', label: '滑动窗口大小', type: 'number', group: '核心参数', unit: '个点', min: 3, max: 50, step: 1, integer: true },
+  validityPeriod: { key: 'validityPeriod', label: '基准点有效期', type: 'number', group: '核心参数', unit: '毫秒', min: 1000, max: 86400000, step: 1000 },
+  maxDriftSequence: { key: 'maxDriftSequence', label: '最大连续漂移点', type: 'number', group: '核心参数', unit: '个点', min: 1, max: 100, step: 1, integer: true },
+  driftThresholdMultiplier: { key: 'driftThresholdMultiplier', label: '漂移判定倍数', type: 'number', group: '核心参数', unit: '倍', min: 1, max: 10, step: 0.1 },
+  linearMotionAngleThreshold: { key: 'linearMotionAngleThreshold', label: '直线漂移角度阈值', type: 'number', group: '核心参数', unit: '度', min: 0, max: 180, step: 1 },
+  driftDetectionMode: { key: 'driftDetectionMode', label: '漂移检测模式', type: 'enum', group: '速度/航向检测', options: ['distance', 'kinematic'] },
+  speedThresholdScale: { key: 'speedThresholdScale', label: '速度放宽系数', type: 'number', group: '速度/航向检测', unit: '倍', min: 1, max: 10, step: 0.1 },
+  headingTolerance: { key: 'headingTolerance', label: '航向容差', type: 'number', group: '速度/航向检测', unit: '度', min: 0, max: 180, step: 1 },
+  minHeadingSpeed: { key: 'minHeadingSpeed', label: '航向检查最低速度', type: 'number', group: '速度/航向检测', unit: 'km/h', min: 0, max: 200, step: 1 },
+  vehicleProfile: { key: 'vehicleProfile', label: '载具类型', type: 'enum', group: '物理可行性', options: ['none', 'car', 'truck', 'pedestrian', 'e-bike', 'custom'] },
+  maxSpeed: { key: 'maxSpeed', label: '最大速度', type: 'number', group: '物理可行性', unit: 'km/h', min: 1, max: 1000, step: 1 },
+  maxAcceleration: { key: 'maxAcceleration', label: '最大加速度', type: 'number', group: '物理可行性', unit: '米/秒²', min: 0.1, max: 100, step: 0.1 },
+  maxYawRate: { key: 'maxYawRate', label: '最大转向角速度', type: 'number', group: '物理可行性', unit: '度/秒', min: 1, max: 720, step: 1 },
+  minYawSpeed: { key: 'minYawSpeed', label: '转向检查最低速度', type: 'number', group: '物理可行性', unit: 'km/h', min: 0, max: 200, step: 1 },
+  enableGapDetection: { key: 'enableGapDetection', label: '检测数据缺口', type: 'boolean', group: '数据缺口' },
+  gapThreshold: { key: 'gapThreshold', label: '缺口判定间隔', type: 'number', group: '数据缺口', unit: '毫秒', min: 1000, max: 86400000, step: 1000 },
+  resetBasePointOnGap: { key: 'resetBasePointOnGap', label: '缺口后清除基准点', type: 'boolean', group: '数据缺口' },
+  gapInterpolation: { key: 'gapInterpolation', label: '缺口插值方式', type: 'enum', group: '数据缺口', options: ['none', 'linear', 'great-circle'] },
+  interpolationInterval: { key: 'interpolationInterval', label: '插值采样间隔', type: 'number', group: '数据缺口', unit: '毫秒', min: 100, max: 600000, step: 100 },
+  enableSanitation: { key: 'enableSanitation', label: '处理前清洗输入', type: 'boolean', group: '输入清洗' },
+  processingMode: { key: 'processingMode', label: '批量处理模式', type: 'enum', group: '离线处理', options: ['forward', 'two-pass'] },
+  twoPassVotingRule: { key: 'twoPassVotingRule', label: '双向投票规则', type: 'enum', group: '离线处理', options: ['both', 'either', 'forward', 'backward'] },
+  earthRadius: { key: 'earthRadius', label: '地球半径', type: 'number', group: '距离计算', unit: '米', min: 6350000, max: 6400000, step: 1000 },
+  kalmanProcessNoise: { key: 'kalmanProcessNoise', label: '过程噪声', type: 'number', group: '卡尔曼滤波', unit: '米/秒²', min: 0.01, max: 50, step: 0.1 },
+  kalmanMeasurementNoise: { key: 'kalmanMeasurementNoise', label: '观测噪声', type: 'number', group: '卡尔曼滤波', unit: '米', min: 0.1, max: 500, step: 1 },
+  kalmanGateThreshold: { key: 'kalmanGateThreshold', label: '新息门限', type: 'number', group: '卡尔曼滤波', min: 0.1, max: 1000, step: 0.1 },
+  enableLogging: { key: 'enableLogging', label: '启用日志', type: 'boolean', group: '调试' },
+  logLevel: { key: 'logLevel', label: '日志级别', type: 'enum', group: '调试', options: ['debug', 'info', 'warn', 'error'] },
+  enableDecisionTrace: { key: 'enableDecisionTrace', label: '记录判定追踪', type: 'boolean', group: '调试' }
+};
+
+/**
+ * 按配置项名称生成配置描述
+ * @param keys 配置项名称（保持给定顺序）
+ */
+export function pickConfigSchema(keys: (keyof AlgorithmConfig)[]): AlgorithmConfigSchema {
+  return keys.map(key => ALGORITHM_CONFIG_FIELDS[key]);
+}
+
+/** 跨字段规则 */
+const CROSS_FIELD_RULES: CrossFieldRule[] = [
+  {
+    fields: ['interpolationInterval', 'gapThreshold', 'gapInterpolation'],
+    applies: config => config.gapInterpolation !== 'none',
+    check: config => config.interpolationInterval < config.gapThreshold,
+    message: config =>
+      `插值采样间隔(${config.interpolationInterval}毫秒)必须小于缺口判定间隔(${config.gapThreshold}毫秒)`
+  },
+  {
+    fields: ['minYawSpeed', 'maxSpeed', 'vehicleProfile'],
+    applies: config => config.vehicleProfile === 'custom',
+    check: config => config.minYawSpeed < config.maxSpeed,
+    message: config =>
+      `转向检查最低速度(${config.minYawSpeed}km/h)必须小于最大速度(${config.maxSpeed}km/h)`
+  }
+];
+
+// ==================== 配置校验 ====================
+
+/**
+ * 校验算法配置
+ * 逐项检查类型和取值范围；跨字段规则仅在相关配置项都已给出时检查
+ * @param config 完整或部分配置
+ * @returns 校验错误列表，为空表示配置有效
+ */
+export function validateAlgorithmConfig(config: Partial<AlgorithmConfig>): ConfigValidationError[] {
+  const errors: ConfigValidationError[] = [];
+
+  for (const [key, value] of Object.entries(config)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    const field = ALGORITHM_CONFIG_FIELDS[key as keyof AlgorithmConfig];
+    if (!field) {
+      errors.push({ field: key, code: 'unknown_field', message: `未知的配置项: ${key}`, value });
+      continue;
+    }
+
+    const error = validateField(field, value);
+    if (error) {
+      errors.push(error);
+    }
+  }
+
+  // 单项有误时跨字段规则的结果没有意义
+  const invalidFields = new Set(errors.map(error => error.field));
+  for (const rule of CROSS_FIELD_RULES) {
+    if (rule.fields.some(field => config[field] === undefined || invalidFields.has(field))) {
+      continue;
+    }
+
+    const fullConfig = config as AlgorithmConfig;
+    if (rule.applies(fullConfig) && !rule.check(fullConfig)) {
+      errors.push({
+        field: rule.fields[0],
+        code: 'conflict',
+        message: rule.message(fullConfig),
+        value: config[rule.fields[0]],
+        relatedFields: rule.fields.slice(1)
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * 校验算法配置，存在错误时抛出AlgorithmConfigError
+ * @returns 原配置（便于在赋值时直接使用）
+ */
+export function assertValidAlgorithmConfig<T extends Partial<AlgorithmConfig>>(config: T): T {
+  const errors = validateAlgorithmConfig(config);
+  if (errors.length > 0) {
+    throw new AlgorithmConfigError(errors);
+  }
+  return config;
+}
+
+/** 校验单个配置项 */
+function validateField(field: AlgorithmConfigField, value: unknown): ConfigValidationError | null {
+  const error = (code: ConfigValidationErrorCode, message: string): ConfigValidationError => ({
+    field: field.key,
+    code,
+    message: `${field.label}(${field.key}) ${message}`,
+    value
+  });
+
+  switch (field.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? null : error('invalid_type', `必须为布尔值: ${String(value)}`);
+
+    case 'enum':
+      return field.options!.includes(value as string)
+        ? null
+        : error('invalid_option', `必须为 ${field.options!.join(' | ')} 之一: ${String(value)}`);
+
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return error('invalid_type', `必须为有限数值: ${String(value)}`);
+      }
+      if (field.integer && !Number.isInteger(value)) {
+        return error('not_integer', `必须为整数: ${value}`);
+      }
+      if ((field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) {
+        return error('out_of_range', `必须在${field.min}到${field.max}${field.unit || ''}之间: ${value}`);
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
@@ -7,11 +7,19 @@ import GPSAlgorithmPackage, {
   GPSPoint as AlgorithmGPSPoint,
   ExtendedGPSPoint,
   ProcessingResult as AlgorithmProcessingResult,
+  ProcessingStatistics,
   AlgorithmConfig,
-  IDataConverter
+  AlgorithmStatus,
+  IDataConverter,
+  IGPSAlgorithm,
+  MarkerInfo,
+  DEFAULT_CONFIG,
+  pickExtendedFields
 } from './gpsAlgorithmPackage';
 import GpsTrajectoryAnalyzer from './gpsTrajectoryAnalyzer';
 import GPSSimulationGenerator from './gpsSimulationGenerator';
+import { GPSClock, DataClock } from './gpsClock';
+import { assertValidAlgorithmConfig } from './gpsConfigSchema';
 
 // 基础GPS点接口
 export interface GPSPoint {
@@ -69,10 +77,14 @@ export class GPSCore implements IDataConverter {
     linearMotionAngleThreshold: 30
   };
 
-  constructor(config?: Partial<ProcessorConfig>) {
+  // 时钟（默认跟随数据时间戳，基准点有效期和年龄均按数据时间计算）
+  private clock: GPSClock;
+
+  constructor(config?: Partial<ProcessorConfig>, clock: GPSClock = new DataClock()) {
     if (config) {
-      this.config = { ...this.config, ...config };
+      this.config = assertValidAlgorithmConfig({ ...this.config, ...config });
     }
+    this.clock = clock;
   }
 
   // =============== 数据转换方法 ===============
@@ -164,23 +176,22 @@ export class GPSCore implements IDataConverter {
    * 从扩展格式转换为基础格式
    */
   fromExtendedFormat(points: ExtendedGPSPoint[]): GPSPoint[] {
-    return points.map(point => ({
-      lat: point.lat,
-      lng: point.lng,
-      timestamp: point.timestamp
-    }));
+    return points.map(point => pickExtendedFields(point));
   }
 
   /**
    * 转换为扩展格式
    */
   toExtendedFormat(points: GPSPoint[]): ExtendedGPSPoint[] {
-    return points.map(point => ({
-      ...point,
-      spd: null,
-      alt: null,
-      cog: null
-    }));
+    return points.map(point => {
+      const extended = point as ExtendedGPSPoint;
+      return {
+        ...point,
+        spd: extended.spd ?? null,
+        alt: extended.alt ?? null,
+        cog: extended.cog ?? null
+      };
+    });
   }
 
   /**
@@ -258,6 +269,8 @@ export class GPSCore implements IDataConverter {
     const latFields = ['lat', 'latitude', 'latitude1', 'y'];
     const lngFields = ['lng', 'lon', 'longitude', 'longitude1', 'x'];
     const timestampFields = ['timestamp', 'time', 'currentTime', 'date', 'datetime'];
+    const speedFields = ['spd', 'speed'];
+    const courseFields = ['cog', 'direction', 'course', 'heading'];
     
     let lat: number | undefined;
     let lng: number | undefined;
@@ -303,7 +316,28 @@ export class GPSCore implements IDataConverter {
       timestamp = Date.now() + index * 1000;
     }
     
-    return { lat, lng, timestamp };
+    const point: ExtendedGPSPoint = { lat, lng, timestamp };
+    
+    // 保留设备上报的速度（km/h）、航向（度）和里程，供运动学漂移判定和输入清洗使用
+    for (const field of speedFields) {
+      if (typeof obj[field] === 'number' && isFinite(obj[field])) {
+        point.spd = obj[field];
+        break;
+      }
+    }
+    
+    for (const field of courseFields) {
+      if (typeof obj[field] === 'number' && isFinite(obj[field])) {
+        point.cog = obj[field];
+        break;
+      }
+    }
+    
+    if (typeof obj.mileage === 'number' && isFinite(obj.mileage)) {
+      point.mileage = obj.mileage;
+    }
+    
+    return point;
   }
 
   // =============== GPS处理方法 ===============
@@ -312,7 +346,7 @@ export class GPSCore implements IDataConverter {
    * 更新配置
    */
   public updateConfig(newConfig: Partial<ProcessorConfig>): void {
-    this.config = { ...this.config, ...newConfig };
+    this.config = assertValidAlgorithmConfig({ ...this.config, ...newConfig });
   }
 
   /**
@@ -325,7 +359,7 @@ export class GPSCore implements IDataConverter {
       hasBasePoint: !!this.basePoint,
       basePointRadius: this.basePointRadius,
       consecutiveDriftCount: this.consecutiveDriftPoints.length,
-      basePointAge: this.basePoint ? Date.now() - this.lastBasePointTime : 0,
+      basePointAge: this.basePoint ? this.clock.now() - this.lastBasePointTime : 0,
       isBasePointExpired: this.isBasePointExpired(),
       basePoint: this.basePoint ? {
         lat: this.basePoint.lat,
@@ -382,7 +416,7 @@ export class GPSCore implements IDataConverter {
     return {
       lat: medianLat,
       lng: medianLng,
-      timestamp: Date.now()
+      timestamp: this.clock.now()
     };
   }
 
@@ -456,7 +490,7 @@ export class GPSCore implements IDataConverter {
   private updateBasePoint(): void {
     if (this.slidingWindow.length >= this.config.windowSize) {
       this.basePoint = this.calculateMedianPoint(this.slidingWindow);
-      this.lastBasePointTime = Date.now();
+      this.lastBasePointTime = this.clock.now();
       this.basePointRadius = this.calculateBasePointRadius();
       console.log(`基准点更新: lat=${this.basePoint.lat.toFixed(6)}, lng=${this.basePoint.lng.toFixed(6)}, 半径=${this.basePointRadius.toFixed(2)}米`);
     }
@@ -483,13 +517,15 @@ export class GPSCore implements IDataConverter {
    * 检查基准点是否过期
    */
   private isBasePointExpired(): boolean {
-    return Date.now() - this.lastBasePointTime > this.config.validityPeriod;
+    return this.clock.now() - this.lastBasePointTime > this.config.validityPeriod;
   }
 
   /**
    * 处理单个GPS点
    */
   public processPoint(point: GPSPoint): boolean {
+    this.clock.observe(point.timestamp);
+
     if (this.slidingWindow.length < this.config.windowSize) {
       this.slidingWindow.push(point);
       this.validPoints.push(point);
@@ -586,6 +622,7 @@ export class GPSCore implements IDataConverter {
     this.discardedDriftPointsCount = 0;
     this.basePointRebuildsCount = 0;
     this.basePointRebuildPositions = [];
+    this.clock.reset();
 
     const filteredPoints: GPSPoint[] = [];
 
@@ -672,4 +709,141 @@ export class GPSCore implements IDataConverter {
   }
 }
 
+/**
+ * GPSCore的算法接口适配
+ * 使GPSCore的处理逻辑（旧处理器）可在算法注册表中选择，只使用ProcessorConfig中的配置项
+ */
+export class GPSCoreAlgorithm implements IGPSAlgorithm {
+  private config: AlgorithmConfig;
+  private core: GPSCore;
+  private processedCount = 0;
+  private acceptedCount = 0;
+
+  constructor(config?: Partial<AlgorithmConfig>) {
+    this.config = assertValidAlgorithmConfig({ ...DEFAULT_CONFIG, ...config });
+    this.core = new GPSCore(this.pickProcessorConfig());
+  }
+
+  getName(): string {
+    return 'GPS Core Processor';
+  }
+
+  getVersion(): string {
+    return '1.0.0';
+  }
+
+  getDescription(): string {
+    return '旧处理器：GPSCore的滑动窗口基准点漂移过滤算法';
+  }
+
+  setConfig(config: Partial<AlgorithmConfig>): void {
+    this.config = assertValidAlgorithmConfig({ ...this.config, ...config });
+    this.core.updateConfig(this.pickProcessorConfig());
+  }
+
+  getConfig(): AlgorithmConfig {
+    return { ...this.config };
+  }
+
+  reset(): void {
+    this.core = new GPSCore(this.pickProcessorConfig());
+    this.processedCount = 0;
+    this.acceptedCount = 0;
+  }
+
+  processPoint(point: AlgorithmGPSPoint): boolean {
+    this.processedCount++;
+    const isValid = this.core.processPoint(point);
+    if (isValid) {
+      this.acceptedCount++;
+    }
+    return isValid;
+  }
+
+  processTrajectory(points: AlgorithmGPSPoint[]): AlgorithmProcessingResult {
+    const startTime = Date.now();
+
+    // 重置状态
+    this.reset();
+
+    const originalPoints: AlgorithmGPSPoint[] = [...points];
+    const processedPoints: AlgorithmGPSPoint[] = [];
+    const filteredPoints: AlgorithmGPSPoint[] = [];
+    const markers: MarkerInfo[] = [];
+
+    for (const point of points) {
+      const rebuildsBefore = this.core.getStatus().basePointRebuildsCount;
+
+      if (this.processPoint(point)) {
+        processedPoints.push(point);
+      } else {
+        filteredPoints.push(point);
+      }
+
+      const rebuildsCount = this.core.getStatus().basePointRebuildsCount;
+      if (rebuildsCount > rebuildsBefore) {
+        markers.push({
+          type: 'rebuild',
+          position: { lat: point.lat, lng: point.lng },
+          info: `基准点重建 (第${rebuildsCount}次)`,
+          timestamp: point.timestamp
+        });
+      }
+    }
+
+    const status = this.core.getStatus();
+    const statistics: ProcessingStatistics = {
+      totalInputPoints: originalPoints.length,
+      validOutputPoints: processedPoints.length,
+      filteredPointsCount: filteredPoints.length,
+      discardedDriftPointsCount: status.discardedDriftPointsCount,
+      basePointRebuildsCount: status.basePointRebuildsCount,
+      processingTimeMs: Date.now() - startTime,
+      filteringRate: originalPoints.length > 0 ? filteredPoints.length / originalPoints.length : 0
+    };
+
+    return {
+      originalPoints,
+      processedPoints,
+      filteredPoints,
+      statistics,
+      markers
+    };
+  }
+
+  getStatus(): AlgorithmStatus {
+    const status = this.core.getStatus();
+
+    return {
+      isInitialized: true,
+      slidingWindowSize: status.slidingWindowSize,
+      validPointsCount: status.validPointsCount,
+      hasBasePoint: status.hasBasePoint,
+      basePointRadius: status.basePointRadius,
+      consecutiveDriftCount: status.consecutiveDriftCount,
+      basePointAge: status.basePointAge,
+      isBasePointExpired: status.isBasePointExpired,
+      basePoint: status.basePoint,
+      statistics: {
+        totalInputPoints: this.processedCount,
+        validOutputPoints: this.acceptedCount,
+        filteredPointsCount: this.processedCount - this.acceptedCount,
+        discardedDriftPointsCount: status.discardedDriftPointsCount,
+        basePointRebuildsCount: status.basePointRebuildsCount
+      }
+    };
+  }
+
+  /** 取出GPSCore使用的配置项 */
+  private pickProcessorConfig(): ProcessorConfig {
+    return {
+      windowSize: this.config.windowSize,
+      validityPeriod: this.config.validityPeriod,
+      maxDriftSequence: this.config.maxDriftSequence,
+      driftThresholdMultiplier: this.config.driftThresholdMultiplier,
+      linearMotionAngleThreshold: this.config.linearMotionAngleThreshold
+    };
+  }
+}
+
 export default GPSCore;
\ No newline at end of file
@@ -0,0 +1,255 @@
+/**
+ * GPS算法评估指标
+ * 以逐点真值标注为基准，评估处理结果的漂移检测质量（精确率、召回率、F1、混淆矩阵）
+ * 和保留点相对真实位置的定位误差（RMSE），并按异常场景类型分别统计
+ */
+
+import { DriftType, GPSPoint, GroundTruthLabel, ProcessingResult } from './gpsAlgorithmPackage';
+import { EARTH_RADIUS, haversineDistance } from './gpsGeometry';
+
+// ==================== 类型定义 ====================
+
+/** 漂移检测指标（漂移点为正类，"被过滤"为预测为正） */
+export interface DetectionMetrics {
+  truePositives: number;          // 漂移点被过滤
+  falsePositives: number;         // 正常点被过滤（误删）
+  falseNegatives: number;         // 漂移点被保留（漏检）
+  trueNegatives: number;          // 正常点被保留
+  precision: number;
+  recall: number;
+  f1: number;
+  accuracy: number;
+  falseDropRate: number;          // 正常点被误删的比例
+}
+
+/** 评估指标 */
+export interface EvaluationMetrics extends DetectionMetrics {
+  pointCount: number;             // 参与统计的点数
+  rmse: number | null;            // 保留点相对真实位置的均方根误差（米，没有真实位置时为null）
+  rmseSampleCount: number;        // 参与RMSE计算的保留点数
+}
+
+/** 评估报告 */
+export interface EvaluationReport {
+  overall: EvaluationMetrics;
+  byScenario: Partial<Record<DriftType, EvaluationMetrics>>; // 按异常场景类型统计（仅包含出现过的场景）
+  unaffected: EvaluationMetrics;  // 未受任何异常场景影响的点
+}
+
+/** 带标注的点（标注文件的单行格式） */
+export interface LabelledPointRecord {
+  lat: number;
+  lng: number;
+  timestamp: number;
+  isDrift: boolean;
+  scenario?: DriftType | null;
+  cleanLat?: number;
+  cleanLng?: number;
+}
+
+/** 场景类型（用于校验标注文件） */
+const DRIFT_TYPES: DriftType[] = ['static', 'moving', 'tunnel', 'speed', 'multipath', 'cold-start', 'frozen', 'timestamp'];
+
+// ==================== 评估 ====================
+
+/**
+ * 评估处理结果
+ * labels与result.originalPoints一一对应；点是否被保留按坐标和时间戳与processedPoints匹配
+ * @param result 算法处理结果
+ * @param labels 逐点真值标注
+ * @param earthRadius 地球半径（米）
+ */
+export function evaluateProcessingResult(
+  result: ProcessingResult,
+  labels: GroundTruthLabel[],
+  earthRadius: number = EARTH_RADIUS
+): EvaluationReport {
+  if (result.originalPoints.length !== labels.length) {
+    throw new Error(`标注数量与原始点数不一致: ${labels.length} / ${result.originalPoints.length}`);
+  }
+
+  const kept = matchKeptPoints(result.originalPoints, result.processedPoints);
+  const scenarioIndices = new Map<DriftType, number[]>();
+  const unaffectedIndices: number[] = [];
+
+  labels.forEach((label, index) => {
+    if (label.scenario) {
+      const indices = scenarioIndices.get(label.scenario) || [];
+      indices.push(index);
+      scenarioIndices.set(label.scenario, indices);
+    } else {
+      unaffectedIndices.push(index);
+    }
+  });
+
+  const measure = (indices: number[]): EvaluationMetrics =>
+    computeEvaluationMetrics(indices, result.originalPoints, labels, kept, earthRadius);
+
+  const byScenario: Partial<Record<DriftType, EvaluationMetrics>> = {};
+  for (const type of DRIFT_TYPES) {
+    const indices = scenarioIndices.get(type);
+    if (indices) {
+      byScenario[type] = measure(indices);
+    }
+  }
+
+  return {
+    overall: measure(labels.map((_, index) => index)),
+    byScenario,
+    unaffected: measure(unaffectedIndices)
+  };
+}
+
+/**
+ * 计算漂移检测指标
+ * @param predictions 每个点是否被判为漂移（被过滤）
+ * @param labels 每个点是否确实是漂移点
+ */
+export function computeDetectionMetrics(predictions: boolean[], labels: boolean[]): DetectionMetrics {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  let trueNegatives = 0;
+
+  predictions.forEach((predicted, i) => {
+    if (predicted && labels[i]) {
+      truePositives++;
+    } else if (predicted) {
+      falsePositives++;
+    } else if (labels[i]) {
+      falseNegatives++;
+    } else {
+      trueNegatives++;
+    }
+  });
+
+  return buildDetectionMetrics(truePositives, falsePositives, falseNegatives, trueNegatives);
+}
+
+/** 合并多组指标（按点数累加后重新计算比率） */
+export function mergeDetectionMetrics(metrics: DetectionMetrics[]): DetectionMetrics {
+  return buildDetectionMetrics(
+    metrics.reduce((sum, item) => sum + item.truePositives, 0),
+    metrics.reduce((sum, item) => sum + item.falsePositives, 0),
+    metrics.reduce((sum, item) => sum + item.falseNegatives, 0),
+    metrics.reduce((sum, item) => sum + item.trueNegatives, 0)
+  );
+}
+
+// ==================== 标注工具 ====================
+
+/** 由逐点漂移标志生成标注（无场景和真实位置信息） */
+export function labelsFromDriftFlags(driftLabels: boolean[]): GroundTruthLabel[] {
+  return driftLabels.map(isDrift => ({ isDrift, scenario: null, cleanPosition: null }));
+}
+
+/**
+ * 解析带标注的点（如人工标注文件）
+ * @param records 标注记录数组
+ * @returns 输入点和对应的标注
+ */
+export function parseLabelledPoints(records: LabelledPointRecord[]): { points: GPSPoint[]; labels: GroundTruthLabel[] } {
+  const points: GPSPoint[] = [];
+  const labels: GroundTruthLabel[] = [];
+
+  records.forEach((record, index) => {
+    if (!Number.isFinite(record.lat) || !Number.isFinite(record.lng) || !Number.isFinite(record.timestamp)) {
+      throw new Error(`标注记录坐标或时间戳无效: 第${index + 1}条`);
+    }
+    if (typeof record.isDrift !== 'boolean') {
+      throw new Error(`标注记录缺少isDrift: 第${index + 1}条`);
+    }
+    if (record.scenario && !DRIFT_TYPES.includes(record.scenario)) {
+      throw new Error(`标注记录场景类型无效: 第${index + 1}条 ${record.scenario}`);
+    }
+
+    const hasCleanPosition = Number.isFinite(record.cleanLat) && Number.isFinite(record.cleanLng);
+
+    points.push({ lat: record.lat, lng: record.lng, timestamp: record.timestamp });
+    labels.push({
+      isDrift: record.isDrift,
+      scenario: record.scenario || null,
+      cleanPosition: hasCleanPosition ? { lat: record.cleanLat!, lng: record.cleanLng! } : null
+    });
+  });
+
+  return { points, labels };
+}
+
+// ==================== 内部方法 ====================
+
+/** 按坐标和时间戳匹配保留的点（同一位置重复出现时按出现次数匹配） */
+function matchKeptPoints(originalPoints: GPSPoint[], processedPoints: GPSPoint[]): boolean[] {
+  const keyOf = (point: GPSPoint) => `${point.lat},${point.lng},${point.timestamp}`;
+  const remaining = new Map<string, number>();
+
+  for (const point of processedPoints) {
+    const key = keyOf(point);
+    remaining.set(key, (remaining.get(key) || 0) + 1);
+  }
+
+  return originalPoints.map(point => {
+    const key = keyOf(point);
+    const count = remaining.get(key) || 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      return true;
+    }
+    return false;
+  });
+}
+
+/** 计算一组点的评估指标 */
+function computeEvaluationMetrics(
+  indices: number[],
+  points: GPSPoint[],
+  labels: GroundTruthLabel[],
+  kept: boolean[],
+  earthRadius: number
+): EvaluationMetrics {
+  const detection = computeDetectionMetrics(
+    indices.map(index => !kept[index]),
+    indices.map(index => labels[index].isDrift)
+  );
+
+  let squaredErrorSum = 0;
+  let rmseSampleCount = 0;
+  for (const index of indices) {
+    const cleanPosition = labels[index].cleanPosition;
+    if (kept[index] && cleanPosition) {
+      squaredErrorSum += haversineDistance(points[index], cleanPosition, earthRadius) ** 2;
+      rmseSampleCount++;
+    }
+  }
+
+  return {
+    ...detection,
+    pointCount: indices.length,
+    rmse: rmseSampleCount > 0 ? Math.sqrt(squaredErrorSum / rmseSampleCount) : null,
+    rmseSampleCount
+  };
+}
+
+/** 由混淆矩阵计算指标 */
+function buildDetectionMetrics(
+  truePositives: number,
+  falsePositives: number,
+  falseNegatives: number,
+  trueNegatives: number
+): DetectionMetrics {
+  const total = truePositives + falsePositives + falseNegatives + trueNegatives;
+  const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0;
+  const recall = truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 0;
+
+  return {
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    trueNegatives,
+    precision,
+    recall,
+    f1: precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0,
+    accuracy: total > 0 ? (truePositives + trueNegatives) / total : 0,
+    falseDropRate: falsePositives + trueNegatives > 0 ? falsePositives / (falsePositives + trueNegatives) : 0
+  };
+}
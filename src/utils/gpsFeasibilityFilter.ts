@@ -0,0 +1,137 @@
+/**
+ * GPS物理可行性检测
+ * 按载具运动学约束（最大速度、最大加速度、最大转向角速度）判断新点相对最近有效点是否可能到达
+ */
+
+import { AlgorithmConfig, GPSPoint } from './gpsAlgorithmPackage';
+import { EARTH_RADIUS, haversineDistance, calculateBearing, angleDifference } from './gpsGeometry';
+
+/** 内置载具类型 */
+export type VehicleProfileName = 'car' | 'truck' | 'pedestrian' | 'e-bike';
+
+/** 载具运动学约束 */
+export interface VehicleProfile {
+  maxSpeed: number;         // 最大速度（km/h）
+  maxAcceleration: number;  // 最大加速度/减速度（米/秒²）
+  maxYawRate: number;       // 最大转向角速度（度/秒）
+  minYawSpeed: number;      // 检查转向角速度的最低速度（km/h），低速时位移方向不可靠
+}
+
+/** 内置载具约束（已考虑1Hz采样下的定位噪声余量） */
+export const VEHICLE_PROFILES: Record<VehicleProfileName, VehicleProfile> = {
+  car: { maxSpeed: 250, maxAcceleration: 12, maxYawRate: 90, minYawSpeed: 20 },
+  truck: { maxSpeed: 140, maxAcceleration: 8, maxYawRate: 45, minYawSpeed: 20 },
+  pedestrian: { maxSpeed: 25, maxAcceleration: 6, maxYawRate: 360, minYawSpeed: 5 },
+  'e-bike': { maxSpeed: 60, maxAcceleration: 8, maxYawRate: 120, minYawSpeed: 10 }
+};
+
+/** 可行性约束类型 */
+export type FeasibilityConstraint = 'speed' | 'acceleration' | 'yawRate';
+
+/** 可行性检测结果 */
+export interface FeasibilityCheckResult {
+  feasible: boolean;
+  violation: FeasibilityConstraint | null; // 首个被违反的约束
+  speed: number | null;         // 相对上一有效点的隐含速度（km/h）
+  acceleration: number | null;  // 隐含加速度（米/秒²）
+  yawRate: number | null;       // 隐含转向角速度（度/秒）
+}
+
+/**
+ * 根据算法配置解析载具约束
+ * @returns 未启用可行性检测时返回null
+ */
+export function resolveVehicleProfile(config: AlgorithmConfig): VehicleProfile | null {
+  if (config.vehicleProfile === 'none') {
+    return null;
+  }
+
+  if (config.vehicleProfile === 'custom') {
+    return {
+      maxSpeed: config.maxSpeed,
+      maxAcceleration: config.maxAcceleration,
+      maxYawRate: config.maxYawRate,
+      minYawSpeed: config.minYawSpeed
+    };
+  }
+
+  const profile = VEHICLE_PROFILES[config.vehicleProfile];
+  if (!profile) {
+    throw new Error(`未知的载具类型: ${config.vehicleProfile}`);
+  }
+  return profile;
+}
+
+/**
+ * 检测新点的物理可行性
+ * 依次检查速度、加速度、转向角速度，时间不递增的点不做判断
+ * @param profile 载具约束
+ * @param point 待检测点
+ * @param previous 最近的有效点
+ * @param beforePrevious 倒数第二个有效点（用于加速度和转向角速度）
+ * @param earthRadius 地球半径（米）
+ */
+export function checkFeasibility(
+  profile: VehicleProfile,
+  point: GPSPoint,
+  previous: GPSPoint,
+  beforePrevious: GPSPoint | null = null,
+  earthRadius: number = EARTH_RADIUS
+): FeasibilityCheckResult {
+  const result: FeasibilityCheckResult = {
+    feasible: true,
+    violation: null,
+    speed: null,
+    acceleration: null,
+    yawRate: null
+  };
+
+  const elapsedSeconds = (point.timestamp - previous.timestamp) / 1000;
+  if (!(elapsedSeconds > 0)) {
+    return result;
+  }
+
+  const speedMps = haversineDistance(previous, point, earthRadius) / elapsedSeconds;
+  result.speed = speedMps * 3.6;
+
+  if (result.speed > profile.maxSpeed) {
+    result.feasible = false;
+    result.violation = 'speed';
+    return result;
+  }
+
+  if (!beforePrevious) {
+    return result;
+  }
+
+  const previousElapsedSeconds = (previous.timestamp - beforePrevious.timestamp) / 1000;
+  if (!(previousElapsedSeconds > 0)) {
+    return result;
+  }
+
+  const previousSpeedMps = haversineDistance(beforePrevious, previous, earthRadius) / previousElapsedSeconds;
+  result.acceleration = Math.abs(speedMps - previousSpeedMps) / elapsedSeconds;
+
+  if (result.acceleration > profile.maxAcceleration) {
+    result.feasible = false;
+    result.violation = 'acceleration';
+    return result;
+  }
+
+  // 前后两段均达到最低速度时才计算转向角速度
+  const minYawSpeedMps = profile.minYawSpeed / 3.6;
+  if (speedMps >= minYawSpeedMps && previousSpeedMps >= minYawSpeedMps) {
+    const turn = angleDifference(
+      calculateBearing(beforePrevious, previous),
+      calculateBearing(previous, point)
+    );
+    result.yawRate = turn / elapsedSeconds;
+
+    if (result.yawRate > profile.maxYawRate) {
+      result.feasible = false;
+      result.violation = 'yawRate';
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,52 @@
+/**
+ * GPS数据缺口插值
+ * 在缺口两端的真实定位点之间按目标采样间隔重建缺失的点，重建点带有synthetic标记
+ */
+
+import { GapInterpolationMethod, GPSPoint, InterpolatedGPSPoint } from './gpsAlgorithmPackage';
+import { interpolateGreatCircle } from './gpsGeometry';
+
+/**
+ * 在两点之间按采样间隔插值
+ * 仅生成两端点之间（不含端点）的点，时间戳为start.timestamp + k × intervalMs
+ * @param start 缺口前的真实点
+ * @param end 缺口后的真实点
+ * @param method 插值方式
+ * @param intervalMs 目标采样间隔（毫秒）
+ * @param gapIndex 所属缺口序号
+ * @returns 插值点
+ */
+export function interpolateGap(
+  start: GPSPoint,
+  end: GPSPoint,
+  method: Exclude<GapInterpolationMethod, 'none'>,
+  intervalMs: number,
+  gapIndex: number
+): InterpolatedGPSPoint[] {
+  if (!(intervalMs > 0)) {
+    throw new Error(`插值采样间隔必须大于0: ${intervalMs}`);
+  }
+
+  const duration = end.timestamp - start.timestamp;
+  const points: InterpolatedGPSPoint[] = [];
+
+  for (let timestamp = start.timestamp + intervalMs; timestamp < end.timestamp; timestamp += intervalMs) {
+    const fraction = (timestamp - start.timestamp) / duration;
+    const position = method === 'great-circle'
+      ? interpolateGreatCircle(start, end, fraction)
+      : {
+          lat: start.lat + (end.lat - start.lat) * fraction,
+          lng: start.lng + (end.lng - start.lng) * fraction
+        };
+
+    points.push({
+      lat: position.lat,
+      lng: position.lng,
+      timestamp,
+      synthetic: true,
+      gapIndex
+    });
+  }
+
+  return points;
+}
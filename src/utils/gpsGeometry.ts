@@ -0,0 +1,203 @@
+/**
+ * GPS几何计算工具
+ * 提供球面距离、局部平面投影等基础几何函数
+ */
+
+/** 地球平均半径（米） */
+export const EARTH_RADIUS = 6371000;
+
+/** 经纬度坐标 */
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/** 局部平面坐标（米，x向东，y向北） */
+export interface LocalPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * 计算两点间的Haversine距离（米）
+ * @param point1 第一个点
+ * @param point2 第二个点
+ * @param earthRadius 地球半径（米）
+ * @returns 距离（米）
+ */
+export function haversineDistance(
+  point1: LatLng,
+  point2: LatLng,
+  earthRadius: number = EARTH_RADIUS
+): number {
+  const lat1Rad = point1.lat * Math.PI / 180;
+  const lat2Rad = point2.lat * Math.PI / 180;
+  const deltaLatRad = (point2.lat - point1.lat) * Math.PI / 180;
+  const deltaLngRad = (point2.lng - point1.lng) * Math.PI / 180;
+
+  const a = Math.sin(deltaLatRad / 2) * Math.sin(deltaLatRad / 2) +
+            Math.cos(lat1Rad) * Math.cos(lat2Rad) *
+            Math.sin(deltaLngRad / 2) * Math.sin(deltaLngRad / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return earthRadius * c;
+}
+
+/**
+ * 将经纬度投影到以origin为原点的局部平面（等距圆柱投影）
+ * 适用于几十公里范围内的相对位置计算
+ * @param origin 投影原点
+ * @param point 待投影点
+ * @param earthRadius 地球半径（米）
+ * @returns 局部平面坐标（米）
+ */
+export function toLocalMeters(
+  origin: LatLng,
+  point: LatLng,
+  earthRadius: number = EARTH_RADIUS
+): LocalPoint {
+  const cosLat = Math.cos(origin.lat * Math.PI / 180);
+  return {
+    x: (point.lng - origin.lng) * Math.PI / 180 * earthRadius * cosLat,
+    y: (point.lat - origin.lat) * Math.PI / 180 * earthRadius
+  };
+}
+
+/**
+ * 将局部平面坐标还原为经纬度
+ * @param origin 投影原点
+ * @param local 局部平面坐标（米）
+ * @param earthRadius 地球半径（米）
+ * @returns 经纬度坐标
+ */
+export function fromLocalMeters(
+  origin: LatLng,
+  local: LocalPoint,
+  earthRadius: number = EARTH_RADIUS
+): LatLng {
+  const cosLat = Math.cos(origin.lat * Math.PI / 180);
+  return {
+    lat: origin.lat + local.y / earthRadius * 180 / Math.PI,
+    lng: origin.lng + local.x / (earthRadius * cosLat) * 180 / Math.PI
+  };
+}
+
+/**
+ * 计算点到线段的最短距离（米）
+ * 以待测点为原点投影到局部平面后计算
+ * @param point 待测点
+ * @param start 线段起点
+ * @param end 线段终点
+ * @param earthRadius 地球半径（米）
+ * @returns 距离（米）
+ */
+export function pointToSegmentDistance(
+  point: LatLng,
+  start: LatLng,
+  end: LatLng,
+  earthRadius: number = EARTH_RADIUS
+): number {
+  const a = toLocalMeters(point, start, earthRadius);
+  const b = toLocalMeters(point, end, earthRadius);
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+
+  if (lengthSquared === 0) {
+    return Math.sqrt(a.x * a.x + a.y * a.y);
+  }
+
+  // 原点在线段上的投影参数，限制在[0, 1]内
+  const t = Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared));
+  const nearestX = a.x + t * dx;
+  const nearestY = a.y + t * dy;
+
+  return Math.sqrt(nearestX * nearestX + nearestY * nearestY);
+}
+
+/**
+ * 计算点到折线的最短距离（米）
+ * @param point 待测点
+ * @param polyline 折线顶点（至少一个点）
+ * @param earthRadius 地球半径（米）
+ * @returns 距离（米），折线为空时返回0
+ */
+export function pointToPolylineDistance(
+  point: LatLng,
+  polyline: LatLng[],
+  earthRadius: number = EARTH_RADIUS
+): number {
+  if (polyline.length === 0) {
+    return 0;
+  }
+  if (polyline.length === 1) {
+    return haversineDistance(point, polyline[0], earthRadius);
+  }
+
+  let minDistance = Infinity;
+  for (let i = 1; i < polyline.length; i++) {
+    minDistance = Math.min(
+      minDistance,
+      pointToSegmentDistance(point, polyline[i - 1], polyline[i], earthRadius)
+    );
+  }
+  return minDistance;
+}
+
+/**
+ * 计算从起点指向终点的方位角（度，0-360，正北为0，顺时针）
+ * @param from 起点
+ * @param to 终点
+ * @returns 方位角（度）
+ */
+export function calculateBearing(from: LatLng, to: LatLng): number {
+  const lat1Rad = from.lat * Math.PI / 180;
+  const lat2Rad = to.lat * Math.PI / 180;
+  const deltaLngRad = (to.lng - from.lng) * Math.PI / 180;
+
+  const y = Math.sin(deltaLngRad) * Math.cos(lat2Rad);
+  const x = Math.cos(lat1Rad) * Math.sin(lat2Rad) -
+            Math.sin(lat1Rad) * Math.cos(lat2Rad) * Math.cos(deltaLngRad);
+
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
+/**
+ * 计算两个方位角之间的最小夹角（度，0-180）
+ */
+export function angleDifference(angle1: number, angle2: number): number {
+  const diff = Math.abs(((angle1 - angle2) % 360 + 360) % 360);
+  return diff > 180 ? 360 - diff : diff;
+}
+
+/**
+ * 沿大圆弧在两点间插值（球面线性插值）
+ * @param from 起点
+ * @param to 终点
+ * @param fraction 插值比例（0为起点，1为终点）
+ * @returns 插值点坐标
+ */
+export function interpolateGreatCircle(from: LatLng, to: LatLng, fraction: number): LatLng {
+  const lat1Rad = from.lat * Math.PI / 180;
+  const lng1Rad = from.lng * Math.PI / 180;
+  const lat2Rad = to.lat * Math.PI / 180;
+  const lng2Rad = to.lng * Math.PI / 180;
+
+  // 两点间的球心角
+  const angularDistance = haversineDistance(from, to, 1);
+  if (angularDistance === 0) {
+    return { lat: from.lat, lng: from.lng };
+  }
+
+  const a = Math.sin((1 - fraction) * angularDistance) / Math.sin(angularDistance);
+  const b = Math.sin(fraction * angularDistance) / Math.sin(angularDistance);
+
+  const x = a * Math.cos(lat1Rad) * Math.cos(lng1Rad) + b * Math.cos(lat2Rad) * Math.cos(lng2Rad);
+  const y = a * Math.cos(lat1Rad) * Math.sin(lng1Rad) + b * Math.cos(lat2Rad) * Math.sin(lng2Rad);
+  const z = a * Math.sin(lat1Rad) + b * Math.sin(lat2Rad);
+
+  return {
+    lat: Math.atan2(z, Math.sqrt(x * x + y * y)) * 180 / Math.PI,
+    lng: Math.atan2(y, x) * 180 / Math.PI
+  };
+}
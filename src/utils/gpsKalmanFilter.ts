@@ -0,0 +1,362 @@
+/**
+ * GPS卡尔曼滤波算法实现
+ * 基于匀速运动模型的卡尔曼滤波，输出平滑位置并通过新息门限剔除离群点
+ */
+
+import {
+  IGPSAlgorithm,
+  AlgorithmConfig,
+  AlgorithmStatus,
+  GPSPoint,
+  ProcessingResult,
+  ProcessingStatistics,
+  MarkerInfo,
+  DEFAULT_CONFIG
+} from './gpsAlgorithmPackage';
+import { LatLng, toLocalMeters, fromLocalMeters } from './gpsGeometry';
+import { assertValidAlgorithmConfig } from './gpsConfigSchema';
+
+/** 单轴滤波状态（位置、速度及其协方差） */
+interface AxisState {
+  position: number;   // 位置（米）
+  velocity: number;   // 速度（米/秒）
+  p00: number;        // 位置方差
+  p01: number;        // 位置-速度协方差
+  p11: number;        // 速度方差
+}
+
+/** 单个点的滤波判定结果 */
+interface FilterDecision {
+  accepted: boolean;
+  mahalanobisDistance: number;  // 新息的马氏距离平方
+  innovationMeters: number;     // 新息距离（米）
+}
+
+/** 初始速度方差（(50m/s)²，即未知速度） */
+const INITIAL_VELOCITY_VARIANCE = 2500;
+
+/**
+ * 匀速模型卡尔曼滤波算法实现类
+ * 东向、北向两个轴相互独立，各自维护[位置, 速度]状态
+ */
+export class GpsKalmanFilter implements IGPSAlgorithm {
+  private config: AlgorithmConfig;
+
+  // 滤波状态
+  private origin: LatLng | null = null;
+  private axisX: AxisState | null = null;
+  private axisY: AxisState | null = null;
+  private lastTimestamp = 0;
+  private lastUpdateTimestamp = 0;
+  private consecutiveRejectCount = 0;
+  private processedCount = 0;
+  private acceptedCount = 0;
+  private rejectedCount = 0;
+  private reinitCount = 0;
+  private isInitialized = false;
+
+  // 最近一次判定结果（用于生成标记）
+  private lastDecision: FilterDecision | null = null;
+
+  constructor(config?: Partial<AlgorithmConfig>) {
+    this.config = assertValidAlgorithmConfig({ ...DEFAULT_CONFIG, ...config });
+    this.reset();
+  }
+
+  // ==================== 接口实现 ====================
+
+  getName(): string {
+    return 'GPS Kalman Filter';
+  }
+
+  getVersion(): string {
+    return '1.0.0';
+  }
+
+  getDescription(): string {
+    return '基于匀速运动模型的卡尔曼滤波算法，输出平滑轨迹并通过新息门限剔除离群点';
+  }
+
+  setConfig(config: Partial<AlgorithmConfig>): void {
+    this.config = assertValidAlgorithmConfig({ ...this.config, ...config });
+    this.log('info', `配置已更新: ${JSON.stringify(config)}`);
+  }
+
+  getConfig(): AlgorithmConfig {
+    return { ...this.config };
+  }
+
+  reset(): void {
+    this.origin = null;
+    this.axisX = null;
+    this.axisY = null;
+    this.lastTimestamp = 0;
+    this.lastUpdateTimestamp = 0;
+    this.consecutiveRejectCount = 0;
+    this.processedCount = 0;
+    this.acceptedCount = 0;
+    this.rejectedCount = 0;
+    this.reinitCount = 0;
+    this.lastDecision = null;
+    this.isInitialized = true;
+
+    this.log('info', '滤波器状态已重置');
+  }
+
+  processPoint(point: GPSPoint): boolean {
+    if (!this.isInitialized) {
+      this.reset();
+    }
+
+    this.processedCount++;
+
+    // 首个点直接初始化滤波器
+    if (!this.origin || !this.axisX || !this.axisY) {
+      this.initializeState(point);
+      this.acceptedCount++;
+      this.lastDecision = { accepted: true, mahalanobisDistance: 0, innovationMeters: 0 };
+      return true;
+    }
+
+    // 预测到当前时刻
+    const dt = Math.max(0, (point.timestamp - this.lastTimestamp) / 1000);
+    this.predict(this.axisX, dt);
+    this.predict(this.axisY, dt);
+    this.lastTimestamp = Math.max(this.lastTimestamp, point.timestamp);
+
+    // 计算新息及马氏距离
+    const measurement = toLocalMeters(this.origin, point, this.config.earthRadius);
+    const r = this.config.kalmanMeasurementNoise * this.config.kalmanMeasurementNoise;
+    const innovationX = measurement.x - this.axisX.position;
+    const innovationY = measurement.y - this.axisY.position;
+    const sx = this.axisX.p00 + r;
+    const sy = this.axisY.p00 + r;
+    const mahalanobisDistance = innovationX * innovationX / sx + innovationY * innovationY / sy;
+    const innovationMeters = Math.sqrt(innovationX * innovationX + innovationY * innovationY);
+
+    if (mahalanobisDistance > this.config.kalmanGateThreshold) {
+      // 连续超出门限过多时认为滤波器已发散，以当前点重新初始化，该点作为新起点被接受
+      if (this.consecutiveRejectCount + 1 >= this.config.maxDriftSequence) {
+        this.log('info', `连续${this.consecutiveRejectCount + 1}个点超出门限，重新初始化滤波器`);
+        this.reinitCount++;
+        this.initializeState(point);
+        this.acceptedCount++;
+        this.lastDecision = { accepted: true, mahalanobisDistance, innovationMeters };
+        return true;
+      }
+
+      this.consecutiveRejectCount++;
+      this.rejectedCount++;
+      this.lastDecision = { accepted: false, mahalanobisDistance, innovationMeters };
+
+      this.log('debug', `新息超出门限，拒绝点: (${point.lat}, ${point.lng}), 马氏距离²=${mahalanobisDistance.toFixed(2)}`);
+      return false;
+    }
+
+    this.update(this.axisX, measurement.x, r);
+    this.update(this.axisY, measurement.y, r);
+    this.lastUpdateTimestamp = point.timestamp;
+    this.consecutiveRejectCount = 0;
+    this.acceptedCount++;
+    this.lastDecision = { accepted: true, mahalanobisDistance, innovationMeters };
+
+    return true;
+  }
+
+  processTrajectory(points: GPSPoint[]): ProcessingResult {
+    const startTime = Date.now();
+
+    // 重置状态
+    this.reset();
+
+    const originalPoints: GPSPoint[] = [...points];
+    const processedPoints: GPSPoint[] = [];
+    const filteredPoints: GPSPoint[] = [];
+    const smoothedPoints: GPSPoint[] = [];
+    const markers: MarkerInfo[] = [];
+
+    for (const point of points) {
+      const reinitCountBefore = this.reinitCount;
+      const isValid = this.processPoint(point);
+
+      if (isValid) {
+        processedPoints.push(point);
+        const estimate = this.getEstimate();
+        if (estimate) {
+          smoothedPoints.push({ lat: estimate.lat, lng: estimate.lng, timestamp: point.timestamp });
+        }
+      } else {
+        filteredPoints.push(point);
+        markers.push({
+          type: 'drift',
+          position: { lat: point.lat, lng: point.lng },
+          info: `离群点 (新息${Math.round(this.lastDecision?.innovationMeters || 0)}米)`,
+          timestamp: point.timestamp
+        });
+      }
+
+      if (this.reinitCount > reinitCountBefore) {
+        markers.push({
+          type: 'rebuild',
+          position: { lat: point.lat, lng: point.lng },
+          info: `滤波器重新初始化 (第${this.reinitCount}次)`,
+          timestamp: point.timestamp
+        });
+      }
+    }
+
+    const statistics: ProcessingStatistics = {
+      totalInputPoints: originalPoints.length,
+      validOutputPoints: processedPoints.length,
+      filteredPointsCount: filteredPoints.length,
+      discardedDriftPointsCount: this.rejectedCount,
+      basePointRebuildsCount: this.reinitCount,
+      processingTimeMs: Date.now() - startTime,
+      filteringRate: originalPoints.length > 0 ? filteredPoints.length / originalPoints.length : 0
+    };
+
+    this.log('info', `轨迹滤波完成: 输入${originalPoints.length}点，输出${processedPoints.length}点，拒绝${filteredPoints.length}点`);
+
+    return {
+      originalPoints,
+      processedPoints,
+      filteredPoints,
+      statistics,
+      markers,
+      smoothedPoints
+    };
+  }
+
+  getStatus(): AlgorithmStatus {
+    const estimate = this.getEstimate();
+
+    return {
+      isInitialized: this.isInitialized,
+      slidingWindowSize: 0,
+      validPointsCount: this.acceptedCount,
+      hasBasePoint: estimate !== null,
+      basePointRadius: this.getPositionStdDev(),
+      consecutiveDriftCount: this.consecutiveRejectCount,
+      basePointAge: estimate ? this.lastTimestamp - this.lastUpdateTimestamp : 0,
+      isBasePointExpired: estimate ? this.lastTimestamp - this.lastUpdateTimestamp > this.config.validityPeriod : false,
+      basePoint: estimate ? { lat: estimate.lat, lng: estimate.lng } : null,
+      statistics: {
+        totalInputPoints: this.processedCount,
+        validOutputPoints: this.acceptedCount,
+        filteredPointsCount: this.rejectedCount,
+        discardedDriftPointsCount: this.rejectedCount,
+        basePointRebuildsCount: this.reinitCount
+      }
+    };
+  }
+
+  // ==================== 滤波结果查询 ====================
+
+  /** 获取当前平滑位置及速度估计（米/秒），未初始化时返回null */
+  getEstimate(): { lat: number; lng: number; speed: number; course: number } | null {
+    if (!this.origin || !this.axisX || !this.axisY) {
+      return null;
+    }
+
+    const position = fromLocalMeters(
+      this.origin,
+      { x: this.axisX.position, y: this.axisY.position },
+      this.config.earthRadius
+    );
+    const vx = this.axisX.velocity;
+    const vy = this.axisY.velocity;
+    const course = (Math.atan2(vx, vy) * 180 / Math.PI + 360) % 360;
+
+    return {
+      lat: position.lat,
+      lng: position.lng,
+      speed: Math.sqrt(vx * vx + vy * vy),
+      course
+    };
+  }
+
+  // ==================== 核心滤波逻辑 ====================
+
+  /** 以观测点初始化滤波状态 */
+  private initializeState(point: GPSPoint): void {
+    const r = this.config.kalmanMeasurementNoise * this.config.kalmanMeasurementNoise;
+
+    this.origin = { lat: point.lat, lng: point.lng };
+    this.axisX = { position: 0, velocity: 0, p00: r, p01: 0, p11: INITIAL_VELOCITY_VARIANCE };
+    this.axisY = { position: 0, velocity: 0, p00: r, p01: 0, p11: INITIAL_VELOCITY_VARIANCE };
+    this.lastTimestamp = point.timestamp;
+    this.lastUpdateTimestamp = point.timestamp;
+    this.consecutiveRejectCount = 0;
+
+    this.log('debug', `滤波器初始化: (${point.lat}, ${point.lng})`);
+  }
+
+  /** 预测步：x = F·x，P = F·P·Fᵀ + Q（白噪声加速度模型） */
+  private predict(axis: AxisState, dt: number): void {
+    if (dt <= 0) {
+      return;
+    }
+
+    const q = this.config.kalmanProcessNoise * this.config.kalmanProcessNoise;
+    const dt2 = dt * dt;
+    const dt3 = dt2 * dt;
+    const dt4 = dt3 * dt;
+
+    axis.position += axis.velocity * dt;
+
+    const p00 = axis.p00 + 2 * dt * axis.p01 + dt2 * axis.p11 + q * dt4 / 4;
+    const p01 = axis.p01 + dt * axis.p11 + q * dt3 / 2;
+    const p11 = axis.p11 + q * dt2;
+
+    axis.p00 = p00;
+    axis.p01 = p01;
+    axis.p11 = p11;
+  }
+
+  /** 更新步：根据位置观测修正状态和协方差 */
+  private update(axis: AxisState, measurement: number, r: number): void {
+    const s = axis.p00 + r;
+    const k0 = axis.p00 / s;
+    const k1 = axis.p01 / s;
+    const innovation = measurement - axis.position;
+
+    axis.position += k0 * innovation;
+    axis.velocity += k1 * innovation;
+
+    const p00 = (1 - k0) * axis.p00;
+    const p01 = (1 - k0) * axis.p01;
+    const p11 = axis.p11 - k1 * axis.p01;
+
+    axis.p00 = p00;
+    axis.p01 = p01;
+    axis.p11 = p11;
+  }
+
+  /** 当前位置估计的标准差（米） */
+  private getPositionStdDev(): number {
+    if (!this.axisX || !this.axisY) {
+      return 0;
+    }
+    return Math.sqrt(this.axisX.p00 + this.axisY.p00);
+  }
+
+  // ==================== 辅助方法 ====================
+
+  /** 日志输出 */
+  private log(level: 'debug' | 'info' | 'warn' | 'error', message: string): void {
+    if (!this.config.enableLogging) {
+      return;
+    }
+
+    const levels = ['debug', 'info', 'warn', 'error'];
+    const currentLevelIndex = levels.indexOf(this.config.logLevel);
+    const messageLevelIndex = levels.indexOf(level);
+
+    if (messageLevelIndex >= currentLevelIndex) {
+      const timestamp = new Date().toISOString();
+      console.log(`[${timestamp}] [GPS-KALMAN] [${level.toUpperCase()}] ${message}`);
+    }
+  }
+}
+
+export default GpsKalmanFilter;
\ No newline at end of file
@@ -0,0 +1,295 @@
+/**
+ * GPS定位噪声模型
+ * 为模拟生成器提供可替换的定位误差分布：均匀偏移、一阶高斯-马尔可夫相关噪声、
+ * 学生t重尾噪声和随卫星数变化的噪声。模型输出以米为单位的北向/东向偏移，
+ * 由注入的随机数生成器驱动，相同种子产生相同序列
+ */
+
+import { NoiseModelSpec } from './gpsAlgorithmPackage';
+import { RandomGenerator } from './gpsRandom';
+
+// ==================== 类型定义 ====================
+
+/** 内置噪声模型类型 */
+export type BuiltinNoiseModelType = 'uniform' | 'gauss-markov' | 'heavy-tailed' | 'satellite';
+
+/** 噪声偏移（米） */
+export interface NoiseOffset {
+  north: number;
+  east: number;
+}
+
+/** 噪声模型接口 */
+export interface INoiseModel {
+  readonly type: string;
+  /**
+   * 采样下一个偏移
+   * @param timestamp 采样时间戳（毫秒），相关噪声按相邻采样的时间间隔演化
+   */
+  sample(timestamp: number): NoiseOffset;
+  /** 重置内部状态 */
+  reset(): void;
+}
+
+/** 噪声模型工厂 */
+export type NoiseModelFactory = (params: Record<string, number>, random: RandomGenerator) => INoiseModel;
+
+/**
+ * 均匀偏移参数
+ * 偏移距离 d ~ U(minOffset, maxOffset)，方向 θ ~ U(0°, 360°)，各次采样相互独立
+ */
+export interface UniformNoiseParams {
+  minOffset: number;              // 最小偏移（米，默认：10）
+  maxOffset: number;              // 最大偏移（米，默认：50）
+}
+
+/**
+ * 一阶高斯-马尔可夫参数
+ * 北向、东向分量各自独立演化：x(k) = e^(-Δt/τ)·x(k-1) + σ·√(1-e^(-2Δt/τ))·w(k)，w(k) ~ N(0, 1)，
+ * 初值 x(0) ~ N(0, σ²)。平稳标准差为σ，自相关函数为 e^(-|Δt|/τ)
+ */
+export interface GaussMarkovNoiseParams {
+  sigma: number;                  // 平稳标准差σ（米，默认：20）
+  correlationTime: number;        // 相关时间τ（秒，默认：30）
+}
+
+/**
+ * 重尾噪声参数
+ * 北向、东向分量各自独立服从缩放的学生t分布：x = s·Z / √(χ²(ν)/ν)，
+ * Z ~ N(0, 1)，χ²(ν)为ν个独立标准正态平方和；ν越小尾部越重（ν=1为柯西分布）
+ */
+export interface HeavyTailedNoiseParams {
+  scale: number;                  // 尺度s（米，默认：10）
+  degreesOfFreedom: number;       // 自由度ν（正整数，默认：3）
+}
+
+/**
+ * 卫星数相关噪声参数
+ * 可见卫星数n在[minSatellites, maxSatellites]内随机游走：相邻采样间以 min(1, changeRate·Δt) 的概率变化±1；
+ * HDOP = hdopFactor / √(n - 3)，北向、东向分量独立服从 N(0, (uere·HDOP)²)
+ */
+export interface SatelliteNoiseParams {
+  uere: number;                   // 用户等效测距误差（米，默认：10）
+  hdopFactor: number;             // HDOP系数（默认：2.5，4颗卫星时HDOP为2.5）
+  minSatellites: number;          // 最少卫星数（不少于4，默认：4）
+  maxSatellites: number;          // 最多卫星数（默认：12）
+  changeRate: number;             // 卫星数变化频率（次/秒，默认：0.2）
+}
+
+/** 内置噪声模型的默认参数 */
+export const DEFAULT_NOISE_PARAMS: {
+  uniform: UniformNoiseParams;
+  'gauss-markov': GaussMarkovNoiseParams;
+  'heavy-tailed': HeavyTailedNoiseParams;
+  satellite: SatelliteNoiseParams;
+} = {
+  uniform: { minOffset: 10, maxOffset: 50 },
+  'gauss-markov': { sigma: 20, correlationTime: 30 },
+  'heavy-tailed': { scale: 10, degreesOfFreedom: 3 },
+  satellite: { uere: 10, hdopFactor: 2.5, minSatellites: 4, maxSatellites: 12, changeRate: 0.2 }
+};
+
+// ==================== 内置模型 ====================
+
+/** 均匀偏移模型 */
+export class UniformNoiseModel implements INoiseModel {
+  readonly type = 'uniform';
+  private params: UniformNoiseParams;
+
+  constructor(params: Partial<UniformNoiseParams>, private random: RandomGenerator) {
+    this.params = { ...DEFAULT_NOISE_PARAMS.uniform, ...params };
+
+    if (!(this.params.minOffset >= 0 && this.params.maxOffset >= this.params.minOffset)) {
+      throw new Error(`均匀噪声偏移范围无效: ${this.params.minOffset}-${this.params.maxOffset}`);
+    }
+  }
+
+  sample(): NoiseOffset {
+    const { minOffset, maxOffset } = this.params;
+    const distance = minOffset + this.random() * (maxOffset - minOffset);
+    const direction = this.random() * 2 * Math.PI;
+    return { north: distance * Math.cos(direction), east: distance * Math.sin(direction) };
+  }
+
+  reset(): void {
+    // 无状态
+  }
+}
+
+/** 一阶高斯-马尔可夫模型 */
+export class GaussMarkovNoiseModel implements INoiseModel {
+  readonly type = 'gauss-markov';
+  private params: GaussMarkovNoiseParams;
+  private state: NoiseOffset | null = null;
+  private lastTimestamp = 0;
+
+  constructor(params: Partial<GaussMarkovNoiseParams>, private random: RandomGenerator) {
+    this.params = { ...DEFAULT_NOISE_PARAMS['gauss-markov'], ...params };
+
+    if (!(this.params.sigma >= 0)) {
+      throw new Error(`高斯-马尔可夫噪声标准差必须为非负数: ${this.params.sigma}`);
+    }
+    if (!(this.params.correlationTime > 0)) {
+      throw new Error(`高斯-马尔可夫噪声相关时间必须大于0: ${this.params.correlationTime}`);
+    }
+  }
+
+  sample(timestamp: number): NoiseOffset {
+    const { sigma, correlationTime } = this.params;
+
+    if (!this.state) {
+      this.state = { north: sigma * gaussianRandom(this.random), east: sigma * gaussianRandom(this.random) };
+    } else {
+      const elapsed = Math.max(0, timestamp - this.lastTimestamp) / 1000;
+      const correlation = Math.exp(-elapsed / correlationTime);
+      const drivingSigma = sigma * Math.sqrt(1 - correlation * correlation);
+      this.state = {
+        north: correlation * this.state.north + drivingSigma * gaussianRandom(this.random),
+        east: correlation * this.state.east + drivingSigma * gaussianRandom(this.random)
+      };
+    }
+
+    this.lastTimestamp = timestamp;
+    return { ...this.state };
+  }
+
+  reset(): void {
+    this.state = null;
+    this.lastTimestamp = 0;
+  }
+}
+
+/** 学生t重尾模型 */
+export class HeavyTailedNoiseModel implements INoiseModel {
+  readonly type = 'heavy-tailed';
+  private params: HeavyTailedNoiseParams;
+
+  constructor(params: Partial<HeavyTailedNoiseParams>, private random: RandomGenerator) {
+    this.params = { ...DEFAULT_NOISE_PARAMS['heavy-tailed'], ...params };
+
+    if (!(this.params.scale >= 0)) {
+      throw new Error(`重尾噪声尺度必须为非负数: ${this.params.scale}`);
+    }
+    if (!Number.isInteger(this.params.degreesOfFreedom) || this.params.degreesOfFreedom < 1) {
+      throw new Error(`重尾噪声自由度必须为正整数: ${this.params.degreesOfFreedom}`);
+    }
+  }
+
+  sample(): NoiseOffset {
+    return { north: this.sampleAxis(), east: this.sampleAxis() };
+  }
+
+  reset(): void {
+    // 无状态
+  }
+
+  /** 采样单个分量 */
+  private sampleAxis(): number {
+    const { scale, degreesOfFreedom } = this.params;
+    const numerator = gaussianRandom(this.random);
+
+    let chiSquare = 0;
+    for (let i = 0; i < degreesOfFreedom; i++) {
+      chiSquare += gaussianRandom(this.random) ** 2;
+    }
+
+    return chiSquare > 0 ? scale * numerator / Math.sqrt(chiSquare / degreesOfFreedom) : 0;
+  }
+}
+
+/** 卫星数相关模型 */
+export class SatelliteNoiseModel implements INoiseModel {
+  readonly type = 'satellite';
+  private params: SatelliteNoiseParams;
+  private satellites: number | null = null;
+  private lastTimestamp = 0;
+
+  constructor(params: Partial<SatelliteNoiseParams>, private random: RandomGenerator) {
+    this.params = { ...DEFAULT_NOISE_PARAMS.satellite, ...params };
+    const { uere, hdopFactor, minSatellites, maxSatellites, changeRate } = this.params;
+
+    if (!(uere >= 0) || !(hdopFactor > 0)) {
+      throw new Error(`卫星噪声测距误差和HDOP系数无效: ${uere} / ${hdopFactor}`);
+    }
+    if (!Number.isInteger(minSatellites) || !Number.isInteger(maxSatellites) ||
+        minSatellites < 4 || maxSatellites < minSatellites) {
+      throw new Error(`卫星数范围无效（至少4颗）: ${minSatellites}-${maxSatellites}`);
+    }
+    if (!(changeRate >= 0)) {
+      throw new Error(`卫星数变化频率必须为非负数: ${changeRate}`);
+    }
+  }
+
+  /** 当前卫星数（尚未采样时为null） */
+  getSatelliteCount(): number | null {
+    return this.satellites;
+  }
+
+  sample(timestamp: number): NoiseOffset {
+    const { uere, hdopFactor, minSatellites, maxSatellites, changeRate } = this.params;
+
+    if (this.satellites === null) {
+      this.satellites = minSatellites + Math.floor(this.random() * (maxSatellites - minSatellites + 1));
+    } else {
+      const elapsed = Math.max(0, timestamp - this.lastTimestamp) / 1000;
+      if (this.random() < Math.min(1, changeRate * elapsed)) {
+        const step = this.random() < 0.5 ? -1 : 1;
+        this.satellites = Math.min(maxSatellites, Math.max(minSatellites, this.satellites + step));
+      }
+    }
+    this.lastTimestamp = timestamp;
+
+    const sigma = uere * hdopFactor / Math.sqrt(this.satellites - 3);
+    return { north: sigma * gaussianRandom(this.random), east: sigma * gaussianRandom(this.random) };
+  }
+
+  reset(): void {
+    this.satellites = null;
+    this.lastTimestamp = 0;
+  }
+}
+
+// ==================== 模型注册表 ====================
+
+/** 噪声模型注册表：类型 -> 工厂 */
+const noiseModelFactories = new Map<string, NoiseModelFactory>([
+  ['uniform', (params, random) => new UniformNoiseModel(params, random)],
+  ['gauss-markov', (params, random) => new GaussMarkovNoiseModel(params, random)],
+  ['heavy-tailed', (params, random) => new HeavyTailedNoiseModel(params, random)],
+  ['satellite', (params, random) => new SatelliteNoiseModel(params, random)]
+]);
+
+/** 注册自定义噪声模型（同名类型会被覆盖） */
+export function registerNoiseModel(type: string, factory: NoiseModelFactory): void {
+  noiseModelFactories.set(type, factory);
+}
+
+/** 获取已注册的噪声模型类型 */
+export function getNoiseModelTypes(): string[] {
+  return Array.from(noiseModelFactories.keys());
+}
+
+/**
+ * 按描述创建噪声模型
+ * @param spec 噪声模型描述
+ * @param random 随机数生成器（模拟生成器传入按种子创建的生成器）
+ */
+export function createNoiseModel(spec: NoiseModelSpec, random: RandomGenerator): INoiseModel {
+  const factory = noiseModelFactories.get(spec.type);
+  if (!factory) {
+    throw new Error(`未知的噪声模型类型: ${spec.type}`);
+  }
+  return factory({ ...spec.params }, random);
+}
+
+// ==================== 工具函数 ====================
+
+/**
+ * 生成标准正态分布随机数（Box-Muller变换）
+ * @param random 均匀分布随机数生成器
+ */
+export function gaussianRandom(random: RandomGenerator): number {
+  const u1 = 1 - random(); // (0, 1]，避免log(0)
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
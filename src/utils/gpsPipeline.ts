@@ -0,0 +1,645 @@
+/**
+ * GPS处理流水线
+ * 将清洗、物理可行性过滤、漂移分析、平滑、简化、上报压缩等步骤组合为有名称的阶段，
+ * 可由JSON描述声明式配置；各阶段的统计和标记汇总到同一个ProcessingResult
+ */
+
+import {
+  IGPSAlgorithm,
+  AlgorithmConfig,
+  AlgorithmStatus,
+  GPSPoint,
+  MarkerInfo,
+  PipelineStageReport,
+  ProcessingResult,
+  ProcessingStatistics,
+  SanitationReport,
+  DEFAULT_CONFIG
+} from './gpsAlgorithmPackage';
+import { GpsTrajectoryAnalyzer } from './gpsTrajectoryAnalyzer';
+import { GpsKalmanFilter } from './gpsKalmanFilter';
+import { GPSSanitizer, SanitationConfig, DEFAULT_SANITATION_CONFIG } from './gpsSanitizer';
+import { FeasibilityConstraint, VehicleProfile, checkFeasibility, resolveVehicleProfile } from './gpsFeasibilityFilter';
+import { simplifyTrajectory, SimplificationMethod, SimplificationOptions } from './gpsTrajectorySimplifier';
+import { GPSUploadCompressor, UploadCompressionConfig, DEFAULT_UPLOAD_COMPRESSION_CONFIG } from './gpsUploadCompressor';
+import { assertValidAlgorithmConfig } from './gpsConfigSchema';
+
+// ==================== 类型定义 ====================
+
+/** 阶段单次批量处理的输出 */
+export interface PipelineStageOutput {
+  points: GPSPoint[];             // 传递给下一阶段的点
+  filteredPoints: GPSPoint[];     // 本阶段剔除的点
+  statistics: Partial<ProcessingStatistics>; // 本阶段统计信息
+  markers: MarkerInfo[];          // 本阶段标记
+  sanitation?: SanitationReport;  // 清洗报告（仅清洗阶段）
+}
+
+/** 流水线阶段接口 */
+export interface IPipelineStage {
+  readonly name: string;          // 阶段名称（流水线内唯一）
+  readonly type: string;          // 阶段类型
+
+  /** 批量处理 */
+  run(points: GPSPoint[]): PipelineStageOutput;
+
+  /** 流式处理单个点（仅逐点判定类阶段实现，未实现的阶段在流式处理中被跳过） */
+  processPoint?(point: GPSPoint): boolean;
+
+  /** 重置阶段状态 */
+  reset?(): void;
+
+  /** 应用流水线共享的算法配置（阶段自身配置优先） */
+  applySharedConfig?(config: Partial<AlgorithmConfig>): void;
+
+  /** 获取算法状态（仅包装算法的阶段实现） */
+  getStatus?(): AlgorithmStatus;
+}
+
+/** 内置阶段类型 */
+export type BuiltinPipelineStageType = 'sanitize' | 'feasibility' | 'analyzer' | 'kalman' | 'simplify' | 'compress';
+
+/** 阶段描述（JSON） */
+export interface PipelineStageSpec {
+  type: BuiltinPipelineStageType | string;
+  name?: string;                  // 阶段名称（默认：type，重复时追加序号）
+  enabled?: boolean;              // 是否启用（默认：true）
+  config?: Record<string, unknown>; // 阶段配置（JSON），由阶段工厂按阶段类型校验
+  output?: 'processed' | 'smoothed'; // 算法阶段的输出（smoothed使用平滑点，默认：'processed'）
+}
+
+/** 流水线描述（JSON） */
+export interface PipelineSpec {
+  name?: string;
+  description?: string;
+  stages: PipelineStageSpec[];
+}
+
+/** 阶段工厂 */
+export type PipelineStageFactory = (spec: PipelineStageSpec, name: string) => IPipelineStage;
+
+// ==================== 内置阶段 ====================
+
+/** 清洗阶段 */
+export class SanitizeStage implements IPipelineStage {
+  readonly type = 'sanitize';
+  private sanitizer: GPSSanitizer;
+
+  constructor(readonly name: string, config?: Partial<SanitationConfig>) {
+    this.sanitizer = new GPSSanitizer(config);
+  }
+
+  run(points: GPSPoint[]): PipelineStageOutput {
+    const result = this.sanitizer.sanitize(points);
+    const droppedIndices = new Set(
+      result.report.entries.filter(entry => entry.action === 'dropped').map(entry => entry.index)
+    );
+
+    return {
+      points: result.points,
+      filteredPoints: points.filter((_, index) => droppedIndices.has(index)),
+      statistics: {
+        totalInputPoints: points.length,
+        validOutputPoints: result.points.length,
+        filteredPointsCount: droppedIndices.size
+      },
+      markers: [],
+      sanitation: result.report
+    };
+  }
+}
+
+/**
+ * 物理可行性过滤阶段
+ * 相对最近两个被接受的点检查速度、加速度、转向角速度；连续拒绝达到maxDriftSequence时接受当前点并以其为新参考，避免参考点失效后持续拒绝
+ */
+export class FeasibilityStage implements IPipelineStage {
+  readonly type = 'feasibility';
+  private config: AlgorithmConfig;
+  private profile: VehicleProfile;
+  private accepted: GPSPoint[] = [];
+  private consecutiveRejectCount = 0;
+  private violations: Record<FeasibilityConstraint, number> = { speed: 0, acceleration: 0, yawRate: 0 };
+  private lastViolation: FeasibilityConstraint | null = null;
+
+  constructor(readonly name: string, private stageConfig: Partial<AlgorithmConfig> = {}) {
+    this.config = assertValidAlgorithmConfig({ ...DEFAULT_CONFIG, vehicleProfile: 'car', ...stageConfig });
+    this.profile = this.resolveProfile();
+  }
+
+  /** 获取生效配置 */
+  getConfig(): AlgorithmConfig {
+    return { ...this.config };
+  }
+
+  /** 共享配置的vehicleProfile为'none'（默认配置）时不覆盖本阶段的载具类型 */
+  applySharedConfig(config: Partial<AlgorithmConfig>): void {
+    const { vehicleProfile, ...sharedConfig } = config;
+    const inheritedProfile = vehicleProfile && vehicleProfile !== 'none' ? { vehicleProfile } : {};
+    this.config = assertValidAlgorithmConfig({
+      ...DEFAULT_CONFIG,
+      vehicleProfile: 'car',
+      ...sharedConfig,
+      ...inheritedProfile,
+      ...this.stageConfig
+    });
+    this.profile = this.resolveProfile();
+  }
+
+  reset(): void {
+    this.accepted = [];
+    this.consecutiveRejectCount = 0;
+    this.violations = { speed: 0, acceleration: 0, yawRate: 0 };
+    this.lastViolation = null;
+  }
+
+  processPoint(point: GPSPoint): boolean {
+    const previous = this.accepted[this.accepted.length - 1];
+    const beforePrevious = this.accepted[this.accepted.length - 2] || null;
+    const violation = previous
+      ? checkFeasibility(this.profile, point, previous, beforePrevious, this.config.earthRadius).violation
+      : null;
+
+    this.lastViolation = violation;
+
+    if (violation !== null) {
+      this.violations[violation]++;
+      this.consecutiveRejectCount++;
+
+      if (this.consecutiveRejectCount < this.config.maxDriftSequence) {
+        return false;
+      }
+
+      // 连续拒绝过多，参考点可能已失效，以当前点重新开始
+      this.accepted = [];
+    }
+
+    this.consecutiveRejectCount = 0;
+    this.accepted.push(point);
+    if (this.accepted.length > 2) {
+      this.accepted.shift();
+    }
+    return true;
+  }
+
+  run(points: GPSPoint[]): PipelineStageOutput {
+    this.reset();
+
+    const output: GPSPoint[] = [];
+    const filteredPoints: GPSPoint[] = [];
+    const markers: MarkerInfo[] = [];
+
+    for (const point of points) {
+      if (this.processPoint(point)) {
+        output.push(point);
+      } else {
+        filteredPoints.push(point);
+        markers.push({
+          type: 'drift',
+          position: { lat: point.lat, lng: point.lng },
+          info: `违反物理约束 (${this.lastViolation})`,
+          timestamp: point.timestamp
+        });
+      }
+    }
+
+    return {
+      points: output,
+      filteredPoints,
+      statistics: {
+        totalInputPoints: points.length,
+        validOutputPoints: output.length,
+        filteredPointsCount: filteredPoints.length,
+        feasibilityRejectedPointsCount: filteredPoints.length,
+        feasibilityViolations: { ...this.violations }
+      },
+      markers
+    };
+  }
+
+  /** 解析载具约束（可行性阶段必须指定载具） */
+  private resolveProfile(): VehicleProfile {
+    const profile = resolveVehicleProfile(this.config);
+    if (!profile) {
+      throw new Error(`可行性过滤阶段需要指定载具类型: ${this.name}`);
+    }
+    return profile;
+  }
+}
+
+/** 算法阶段（包装任意IGPSAlgorithm） */
+export class AlgorithmStage implements IPipelineStage {
+  constructor(
+    readonly name: string,
+    readonly type: string,
+    private algorithm: IGPSAlgorithm,
+    private stageConfig: Partial<AlgorithmConfig> = {},
+    private output: 'processed' | 'smoothed' = 'processed'
+  ) {}
+
+  /** 获取被包装的算法实例 */
+  getAlgorithm(): IGPSAlgorithm {
+    return this.algorithm;
+  }
+
+  applySharedConfig(config: Partial<AlgorithmConfig>): void {
+    this.algorithm.setConfig({ ...config, ...this.stageConfig });
+  }
+
+  reset(): void {
+    this.algorithm.reset();
+  }
+
+  processPoint(point: GPSPoint): boolean {
+    return this.algorithm.processPoint(point);
+  }
+
+  getStatus(): AlgorithmStatus {
+    return this.algorithm.getStatus();
+  }
+
+  run(points: GPSPoint[]): PipelineStageOutput {
+    const result = this.algorithm.processTrajectory(points);
+    const outputPoints = this.output === 'smoothed' && result.smoothedPoints
+      ? result.smoothedPoints
+      : result.processedPoints;
+
+    return {
+      points: outputPoints,
+      filteredPoints: result.filteredPoints,
+      statistics: result.statistics,
+      markers: result.markers || []
+    };
+  }
+}
+
+/** 简化阶段 */
+export class SimplifyStage implements IPipelineStage {
+  readonly type = 'simplify';
+
+  constructor(readonly name: string, private options: SimplificationOptions) {}
+
+  run(points: GPSPoint[]): PipelineStageOutput {
+    const result = simplifyTrajectory(points, this.options);
+
+    return {
+      points: result.points,
+      filteredPoints: [],
+      statistics: {
+        totalInputPoints: points.length,
+        validOutputPoints: result.points.length
+      },
+      markers: []
+    };
+  }
+}
+
+/** 上报压缩阶段 */
+export class CompressStage implements IPipelineStage {
+  readonly type = 'compress';
+  private compressor: GPSUploadCompressor;
+
+  constructor(readonly name: string, config?: Partial<UploadCompressionConfig>) {
+    this.compressor = new GPSUploadCompressor(config);
+  }
+
+  run(points: GPSPoint[]): PipelineStageOutput {
+    const result = this.compressor.compress(points);
+
+    return {
+      points: result.reportedPoints,
+      filteredPoints: [],
+      statistics: {
+        totalInputPoints: points.length,
+        validOutputPoints: result.reportedPoints.length
+      },
+      markers: []
+    };
+  }
+}
+
+// ==================== 阶段注册 ====================
+
+/** 简化阶段支持的算法 */
+const SIMPLIFICATION_METHODS: SimplificationMethod[] = ['douglas-peucker', 'visvalingam-whyatt', 'sed'];
+
+/** 取出阶段配置，配置必须为对象 */
+function getStageConfigObject(spec: PipelineStageSpec, name: string): Record<string, unknown> {
+  const config = spec.config ?? {};
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error(`流水线阶段配置必须为对象: ${name}`);
+  }
+  return config;
+}
+
+/** 校验算法类阶段（可行性、分析器、卡尔曼）的配置 */
+function parseAlgorithmStageConfig(spec: PipelineStageSpec, name: string): Partial<AlgorithmConfig> {
+  return assertValidAlgorithmConfig(getStageConfigObject(spec, name) as Partial<AlgorithmConfig>);
+}
+
+/**
+ * 按默认配置校验阶段配置：只允许默认配置中存在的配置项，且取值类型与默认值一致
+ * 取值范围由各阶段构造时自行校验
+ */
+function parseStageConfig<T extends object>(spec: PipelineStageSpec, name: string, defaults: T): Partial<T> {
+  const config = getStageConfigObject(spec, name);
+
+  for (const [key, value] of Object.entries(config)) {
+    if (!(key in defaults)) {
+      throw new Error(`流水线阶段配置项未知: ${name}.${key}`);
+    }
+    if (typeof value !== typeof defaults[key as keyof T]) {
+      throw new Error(`流水线阶段配置项类型无效: ${name}.${key}，期望${typeof defaults[key as keyof T]}`);
+    }
+  }
+
+  return config as Partial<T>;
+}
+
+/** 校验算法阶段的输出选项 */
+function parseStageOutput(spec: PipelineStageSpec, name: string): 'processed' | 'smoothed' {
+  const output = spec.output ?? 'processed';
+  if (output !== 'processed' && output !== 'smoothed') {
+    throw new Error(`算法阶段输出选项无效: ${name}.output=${output}`);
+  }
+  return output;
+}
+
+/** 校验简化阶段配置 */
+function parseSimplificationOptions(spec: PipelineStageSpec, name: string): SimplificationOptions {
+  const config = getStageConfigObject(spec, name);
+  if (!config.method) {
+    throw new Error(`简化阶段缺少method配置: ${name}`);
+  }
+
+  const { method, tolerance, earthRadius, ...rest } = config;
+  const unknownKeys = Object.keys(rest);
+  if (unknownKeys.length > 0) {
+    throw new Error(`流水线阶段配置项未知: ${name}.${unknownKeys[0]}`);
+  }
+  if (!SIMPLIFICATION_METHODS.includes(method as SimplificationMethod)) {
+    throw new Error(`不支持的简化算法: ${name}.method=${String(method)}`);
+  }
+  if (typeof tolerance !== 'number') {
+    throw new Error(`简化阶段缺少数值tolerance配置: ${name}`);
+  }
+  if (earthRadius !== undefined && typeof earthRadius !== 'number') {
+    throw new Error(`流水线阶段配置项类型无效: ${name}.earthRadius，期望number`);
+  }
+
+  return { method: method as SimplificationMethod, tolerance, earthRadius };
+}
+
+/** 阶段工厂注册表 */
+const stageFactories = new Map<string, PipelineStageFactory>([
+  ['sanitize', (spec, name) =>
+    new SanitizeStage(name, parseStageConfig<SanitationConfig>(spec, name, DEFAULT_SANITATION_CONFIG))],
+  ['feasibility', (spec, name) =>
+    new FeasibilityStage(name, parseAlgorithmStageConfig(spec, name))],
+  ['analyzer', (spec, name) => {
+    const config = parseAlgorithmStageConfig(spec, name);
+    return new AlgorithmStage(name, 'analyzer', new GpsTrajectoryAnalyzer(config), config, parseStageOutput(spec, name));
+  }],
+  ['kalman', (spec, name) => {
+    const config = parseAlgorithmStageConfig(spec, name);
+    return new AlgorithmStage(name, 'kalman', new GpsKalmanFilter(config), config, parseStageOutput(spec, name));
+  }],
+  ['simplify', (spec, name) => new SimplifyStage(name, parseSimplificationOptions(spec, name))],
+  ['compress', (spec, name) =>
+    new CompressStage(name, parseStageConfig<UploadCompressionConfig>(spec, name, DEFAULT_UPLOAD_COMPRESSION_CONFIG))]
+]);
+
+/** 注册自定义阶段类型（同名类型会被覆盖） */
+export function registerPipelineStage(type: string, factory: PipelineStageFactory): void {
+  stageFactories.set(type, factory);
+}
+
+/** 获取已注册的阶段类型 */
+export function getPipelineStageTypes(): string[] {
+  return Array.from(stageFactories.keys());
+}
+
+// ==================== 流水线 ====================
+
+/**
+ * GPS处理流水线
+ * 实现IGPSAlgorithm，可直接作为GPSAlgorithmPackage的算法使用
+ */
+export class GPSPipeline implements IGPSAlgorithm {
+  private stages: IPipelineStage[];
+  private name: string;
+  private description: string;
+  private config: AlgorithmConfig;
+  private lastResult: ProcessingResult | null = null;
+
+  constructor(stages: IPipelineStage[], options: { name?: string; description?: string; config?: Partial<AlgorithmConfig> } = {}) {
+    if (stages.length === 0) {
+      throw new Error('流水线至少需要一个阶段');
+    }
+
+    const names = new Set<string>();
+    for (const stage of stages) {
+      if (names.has(stage.name)) {
+        throw new Error(`流水线阶段名称重复: ${stage.name}`);
+      }
+      names.add(stage.name);
+    }
+
+    this.stages = stages;
+    this.name = options.name || 'GPS Pipeline';
+    this.description = options.description || '';
+    this.config = assertValidAlgorithmConfig({ ...DEFAULT_CONFIG, ...options.config });
+    this.applyConfigToStages(options.config || {});
+  }
+
+  /**
+   * 从JSON描述创建流水线
+   * @param spec 流水线描述对象或JSON字符串
+   */
+  static fromSpec(spec: PipelineSpec | string, config?: Partial<AlgorithmConfig>): GPSPipeline {
+    const pipelineSpec: PipelineSpec = typeof spec === 'string' ? JSON.parse(spec) : spec;
+
+    if (!pipelineSpec || !Array.isArray(pipelineSpec.stages)) {
+      throw new Error('流水线描述格式不正确，缺少stages数组');
+    }
+
+    const typeCounts = new Map<string, number>();
+    const stages = pipelineSpec.stages
+      .filter(stageSpec => stageSpec.enabled !== false)
+      .map(stageSpec => {
+        const factory = stageFactories.get(stageSpec.type);
+        if (!factory) {
+          throw new Error(`未知的流水线阶段类型: ${stageSpec.type}`);
+        }
+
+        const count = (typeCounts.get(stageSpec.type) || 0) + 1;
+        typeCounts.set(stageSpec.type, count);
+        const name = stageSpec.name || (count > 1 ? `${stageSpec.type}-${count}` : stageSpec.type);
+
+        return factory(stageSpec, name);
+      });
+
+    return new GPSPipeline(stages, {
+      name: pipelineSpec.name,
+      description: pipelineSpec.description,
+      config
+    });
+  }
+
+  /** 获取阶段列表 */
+  getStages(): IPipelineStage[] {
+    return [...this.stages];
+  }
+
+  /** 按名称获取阶段 */
+  getStage(name: string): IPipelineStage | null {
+    return this.stages.find(stage => stage.name === name) || null;
+  }
+
+  // ==================== 接口实现 ====================
+
+  getName(): string {
+    return this.name;
+  }
+
+  getVersion(): string {
+    return '1.0.0';
+  }
+
+  getDescription(): string {
+    return this.description || `处理流水线: ${this.stages.map(stage => stage.name).join(' → ')}`;
+  }
+
+  setConfig(config: Partial<AlgorithmConfig>): void {
+    this.config = assertValidAlgorithmConfig({ ...this.config, ...config });
+    this.applyConfigToStages(this.config);
+  }
+
+  getConfig(): AlgorithmConfig {
+    return { ...this.config };
+  }
+
+  reset(): void {
+    for (const stage of this.stages) {
+      stage.reset?.();
+    }
+    this.lastResult = null;
+  }
+
+  /** 流式处理：依次经过支持逐点判定的阶段，任一阶段拒绝即为无效点 */
+  processPoint(point: GPSPoint): boolean {
+    for (const stage of this.stages) {
+      if (stage.processPoint && !stage.processPoint(point)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 批量处理：各阶段剔除的点汇总到filteredPoints；
+   * 简化/压缩阶段精简掉的点不是被判为无效的点，不计入filteredPoints，单独统计为reducedPointsCount
+   */
+  processTrajectory(points: GPSPoint[]): ProcessingResult {
+    const startTime = Date.now();
+
+    let current: GPSPoint[] = [...points];
+    const filteredPoints: GPSPoint[] = [];
+    const markers: MarkerInfo[] = [];
+    const stageReports: PipelineStageReport[] = [];
+    let sanitation: SanitationReport | undefined;
+    let discardedDriftPointsCount = 0;
+    let basePointRebuildsCount = 0;
+    let reducedPointsCount = 0;
+
+    for (const stage of this.stages) {
+      const stageStart = Date.now();
+      const output = stage.run(current);
+      const reducedCount = Math.max(0, current.length - output.points.length - output.filteredPoints.length);
+
+      filteredPoints.push(...output.filteredPoints);
+      reducedPointsCount += reducedCount;
+      markers.push(...output.markers.map(marker => ({ ...marker, stage: stage.name })));
+      discardedDriftPointsCount += output.statistics.discardedDriftPointsCount || 0;
+      basePointRebuildsCount += output.statistics.basePointRebuildsCount || 0;
+      if (output.sanitation) {
+        sanitation = output.sanitation;
+      }
+
+      stageReports.push({
+        name: stage.name,
+        type: stage.type,
+        inputCount: current.length,
+        outputCount: output.points.length,
+        filteredCount: output.filteredPoints.length,
+        reducedCount,
+        processingTimeMs: Date.now() - stageStart,
+        statistics: output.statistics
+      });
+
+      current = output.points;
+    }
+
+    const result: ProcessingResult = {
+      originalPoints: [...points],
+      processedPoints: current,
+      filteredPoints,
+      statistics: {
+        totalInputPoints: points.length,
+        validOutputPoints: current.length,
+        filteredPointsCount: filteredPoints.length,
+        discardedDriftPointsCount,
+        basePointRebuildsCount,
+        processingTimeMs: Date.now() - startTime,
+        filteringRate: points.length > 0 ? filteredPoints.length / points.length : 0,
+        reducedPointsCount
+      },
+      markers,
+      stages: stageReports
+    };
+
+    if (sanitation) {
+      result.sanitation = sanitation;
+    }
+
+    this.lastResult = result;
+    return result;
+  }
+
+  /** 返回最后一个算法阶段的状态，统计信息取最近一次批量处理的汇总 */
+  getStatus(): AlgorithmStatus {
+    const algorithmStages = this.stages.filter(stage => stage.getStatus);
+    const lastAlgorithmStage = algorithmStages[algorithmStages.length - 1];
+    const status: AlgorithmStatus = lastAlgorithmStage
+      ? lastAlgorithmStage.getStatus!()
+      : {
+          isInitialized: true,
+          slidingWindowSize: 0,
+          validPointsCount: 0,
+          hasBasePoint: false,
+          basePointRadius: 0,
+          consecutiveDriftCount: 0,
+          basePointAge: 0,
+          isBasePointExpired: false,
+          basePoint: null,
+          statistics: {}
+        };
+
+    if (this.lastResult) {
+      status.statistics = { ...this.lastResult.statistics };
+    }
+
+    return status;
+  }
+
+  // ==================== 内部方法 ====================
+
+  /** 将共享配置下发到各阶段 */
+  private applyConfigToStages(config: Partial<AlgorithmConfig>): void {
+    for (const stage of this.stages) {
+      stage.applySharedConfig?.(config);
+    }
+  }
+}
+
+export default GPSPipeline;
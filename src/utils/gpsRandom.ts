@@ -0,0 +1,39 @@
+/**
+ * 可复现的伪随机数生成
+ * 基于Mulberry32算法，仅使用32位整数运算，相同种子在任何平台上产生相同的序列
+ */
+
+/** 随机数生成器，返回[0, 1)区间的数 */
+export type RandomGenerator = () => number;
+
+/**
+ * 规范化随机种子为32位无符号整数
+ * @param seed 随机种子（必须为有限整数）
+ */
+export function normalizeSeed(seed: number): number {
+  if (!Number.isInteger(seed)) {
+    throw new Error(`随机种子必须为整数: ${seed}`);
+  }
+  return seed >>> 0;
+}
+
+/** 生成一个新的随机种子（未指定种子时使用，随结果返回以便复现） */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * 创建确定性的伪随机数生成器
+ * @param seed 随机种子
+ */
+export function createSeededRandom(seed: number): RandomGenerator {
+  let state = normalizeSeed(seed);
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
@@ -0,0 +1,366 @@
+/**
+ * 合成路线生成器
+ * 根据航点列表或GeoJSON LineString生成无噪声的轨迹：按速度曲线加减速、弯道限速、
+ * 在指定航点停留，并按采样间隔（可带抖动）输出GPS点；可再交给模拟生成器叠加异常场景
+ */
+
+import { GPSPoint } from './gpsAlgorithmPackage';
+import { EARTH_RADIUS, angleDifference, calculateBearing, haversineDistance, interpolateGreatCircle } from './gpsGeometry';
+import { createSeededRandom, generateSeed, normalizeSeed } from './gpsRandom';
+
+// ==================== 类型定义 ====================
+
+/** 航点 */
+export interface RouteWaypoint {
+  lat: number;
+  lng: number;
+  stopDuration?: number;          // 在该航点停留的时长（毫秒，默认不停留）
+  speedLimit?: number;            // 从该航点出发的路段限速（km/h，默认为巡航速度）
+}
+
+/** GeoJSON LineString几何（坐标为[经度, 纬度]或[经度, 纬度, 高度]） */
+export interface GeoJSONLineString {
+  type: 'LineString';
+  coordinates: number[][];
+}
+
+/** 以LineString为几何的GeoJSON Feature */
+export interface GeoJSONLineStringFeature {
+  type: 'Feature';
+  geometry: GeoJSONLineString;
+  properties?: Record<string, unknown> | null;
+}
+
+/** 路线输入 */
+export type RouteInput = RouteWaypoint[] | GeoJSONLineString | GeoJSONLineStringFeature;
+
+/** 路线生成配置 */
+export interface RouteGeneratorConfig {
+  startTime: number;              // 起始时间戳（毫秒，默认：2024-01-01T00:00:00Z，保证结果可复现）
+  samplingInterval: number;       // 采样间隔（毫秒，默认：1000）
+  samplingJitter: number;         // 采样抖动（毫秒，默认：0），每个采样时刻在±抖动范围内随机偏移，须小于采样间隔的一半
+  cruiseSpeed: number;            // 巡航速度（km/h，默认：40）
+  speedVariation: number;         // 巡航速度波动比例（0-1，默认：0.1）
+  acceleration: number;           // 加速度（米/秒²，默认：1.5）
+  deceleration: number;           // 减速度（米/秒²，默认：2）
+  maxLateralAcceleration: number; // 转弯最大横向加速度（米/秒²，默认：2），决定弯道限速
+  earthRadius: number;            // 地球半径（米，默认：6371000）
+  seed?: number;                  // 随机种子（整数，省略时随机生成）
+}
+
+/** 默认路线生成配置 */
+export const DEFAULT_ROUTE_GENERATOR_CONFIG: RouteGeneratorConfig = {
+  startTime: Date.UTC(2024, 0, 1),
+  samplingInterval: 1000,
+  samplingJitter: 0,
+  cruiseSpeed: 40,
+  speedVariation: 0.1,
+  acceleration: 1.5,
+  deceleration: 2,
+  maxLateralAcceleration: 2,
+  earthRadius: EARTH_RADIUS
+};
+
+/** 路线上的一次停留 */
+export interface RouteStop {
+  waypointIndex: number;          // 停留的航点序号
+  position: { lat: number; lng: number };
+  arrivalTime: number;            // 到达时间（毫秒）
+  departureTime: number;          // 离开时间（毫秒）
+}
+
+/** 路线生成结果 */
+export interface GeneratedRoute {
+  points: GPSPoint[];             // 按时间排序的采样点
+  distance: number;               // 路线总长度（米）
+  duration: number;               // 总时长（毫秒，含停留）
+  stops: RouteStop[];
+  seed: number;                   // 本次生成使用的随机种子
+}
+
+/** 航点处的速度约束 */
+interface SpeedConstraint {
+  distance: number;               // 距路线起点的里程（米）
+  speed: number;                  // 经过该航点的最高速度（米/秒，停留点为0）
+  stopDuration: number;           // 停留时长（毫秒）
+}
+
+/** 运动轨迹上的一个时刻（用于按采样时刻插值） */
+interface MotionSample {
+  time: number;                   // 相对起始时间（毫秒）
+  distance: number;               // 里程（米）
+}
+
+/** 运动仿真步长（秒） */
+const STEP_SECONDS = 0.2;
+
+/** 接近停留点时的最低速度（米/秒），保证能够到达停留点 */
+const MIN_CREEP_SPEED = 0.5;
+
+// ==================== 路线生成器 ====================
+
+/**
+ * 合成路线生成器
+ * 沿航点折线做一维运动仿真：限速取路段限速、弯道限速和前方约束的制动距离三者最小值，
+ * 再按采样时刻对里程插值得到坐标
+ */
+export class GPSRouteGenerator {
+  private config: RouteGeneratorConfig;
+
+  constructor(config?: Partial<RouteGeneratorConfig>) {
+    this.config = { ...DEFAULT_ROUTE_GENERATOR_CONFIG, ...config };
+
+    if (!(this.config.samplingInterval > 0)) {
+      throw new Error(`采样间隔必须大于0: ${this.config.samplingInterval}`);
+    }
+    if (!(this.config.samplingJitter >= 0) || this.config.samplingJitter * 2 >= this.config.samplingInterval) {
+      throw new Error(`采样抖动必须为非负数且小于采样间隔的一半: ${this.config.samplingJitter}`);
+    }
+    if (!(this.config.cruiseSpeed > 0)) {
+      throw new Error(`巡航速度必须大于0: ${this.config.cruiseSpeed}`);
+    }
+    if (!(this.config.speedVariation >= 0 && this.config.speedVariation < 1)) {
+      throw new Error(`巡航速度波动比例必须在0到1之间: ${this.config.speedVariation}`);
+    }
+    if (!(this.config.acceleration > 0) || !(this.config.deceleration > 0) || !(this.config.maxLateralAcceleration > 0)) {
+      throw new Error('加速度、减速度和横向加速度必须大于0');
+    }
+  }
+
+  /** 获取当前配置 */
+  getConfig(): RouteGeneratorConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * 生成路线轨迹
+   * @param route 航点列表或GeoJSON LineString
+   */
+  generate(route: RouteInput): GeneratedRoute {
+    const waypoints = parseRouteInput(route);
+    const seed = this.config.seed === undefined ? generateSeed() : normalizeSeed(this.config.seed);
+    const random = createSeededRandom(seed);
+
+    // 各航点的累计里程
+    const cumulative = [0];
+    for (let i = 1; i < waypoints.length; i++) {
+      cumulative.push(cumulative[i - 1] + haversineDistance(waypoints[i - 1], waypoints[i], this.config.earthRadius));
+    }
+    const totalDistance = cumulative[cumulative.length - 1];
+    if (totalDistance === 0) {
+      throw new Error('路线总长度为0，航点不能全部重合');
+    }
+
+    const constraints = this.buildConstraints(waypoints, cumulative);
+    const stops: RouteStop[] = [];
+    const motion = this.simulateMotion(waypoints, constraints, random, (waypointIndex, arrivalTime, departureTime) => {
+      stops.push({
+        waypointIndex,
+        position: { lat: waypoints[waypointIndex].lat, lng: waypoints[waypointIndex].lng },
+        arrivalTime: this.config.startTime + Math.round(arrivalTime),
+        departureTime: this.config.startTime + Math.round(departureTime)
+      });
+    });
+    const duration = motion[motion.length - 1].time;
+
+    return {
+      points: this.sample(motion, duration, waypoints, cumulative, random),
+      distance: totalDistance,
+      duration: Math.round(duration),
+      stops,
+      seed
+    };
+  }
+
+  /**
+   * 计算各航点的速度约束
+   * 起点、终点和停留点速度为0；中间航点按转角估算转弯半径，由横向加速度上限得到弯道限速
+   */
+  private buildConstraints(waypoints: RouteWaypoint[], cumulative: number[]): SpeedConstraint[] {
+    const lastIndex = waypoints.length - 1;
+
+    return waypoints.map((waypoint, i) => {
+      const stopDuration = waypoint.stopDuration || 0;
+      let speed = Infinity;
+
+      if (i === 0 || i === lastIndex || stopDuration > 0) {
+        speed = 0;
+      } else {
+        const turnAngle = angleDifference(
+          calculateBearing(waypoints[i - 1], waypoint),
+          calculateBearing(waypoint, waypoints[i + 1])
+        );
+        // 转弯圆弧与两侧路段相切于较短路段的中点
+        const tangentLength = Math.min(cumulative[i] - cumulative[i - 1], cumulative[i + 1] - cumulative[i]) / 2;
+        const halfTurn = turnAngle * Math.PI / 360;
+        if (halfTurn > 0) {
+          const radius = tangentLength / Math.tan(halfTurn);
+          speed = Math.sqrt(this.config.maxLateralAcceleration * radius);
+        }
+      }
+
+      return { distance: cumulative[i], speed, stopDuration };
+    });
+  }
+
+  /**
+   * 沿路线做一维运动仿真
+   * @param onStop 每次停留的回调（航点序号、到达和离开的相对时间）
+   * @returns 按时间排序的里程记录
+   */
+  private simulateMotion(
+    waypoints: RouteWaypoint[],
+    constraints: SpeedConstraint[],
+    random: () => number,
+    onStop: (waypointIndex: number, arrivalTime: number, departureTime: number) => void
+  ): MotionSample[] {
+    const { acceleration, deceleration, speedVariation } = this.config;
+    const motion: MotionSample[] = [{ time: 0, distance: 0 }];
+    const lastIndex = waypoints.length - 1;
+    const maxLegSpeed = Math.max(...waypoints.map(waypoint => this.getLegSpeed(waypoint))) * (1 + speedVariation);
+
+    let time = 0;
+    let distance = 0;
+    let speed = 0;
+    let legIndex = 0;
+    let speedFactor = 1;
+
+    // 起点停留
+    if (constraints[0].stopDuration > 0) {
+      time += constraints[0].stopDuration;
+      onStop(0, 0, time);
+      motion.push({ time, distance });
+    }
+
+    while (legIndex < lastIndex) {
+      const target = constraints[legIndex + 1];
+
+      // 限速：路段限速（带随机波动）与前方各约束的制动曲线取最小值
+      let limit = this.getLegSpeed(waypoints[legIndex]) * speedFactor;
+      for (let i = legIndex + 1; i <= lastIndex; i++) {
+        const remaining = constraints[i].distance - distance;
+        if (remaining * 2 * deceleration > maxLegSpeed * maxLegSpeed) {
+          break;
+        }
+        limit = Math.min(limit, Math.sqrt(constraints[i].speed ** 2 + 2 * deceleration * remaining));
+      }
+      limit = Math.max(limit, MIN_CREEP_SPEED);
+
+      speed = speed < limit
+        ? Math.min(limit, speed + acceleration * STEP_SECONDS)
+        : Math.max(limit, speed - deceleration * STEP_SECONDS);
+
+      if (distance + speed * STEP_SECONDS >= target.distance) {
+        // 到达航点
+        time += speed > 0 ? (target.distance - distance) / speed * 1000 : 0;
+        distance = target.distance;
+        motion.push({ time, distance });
+        legIndex++;
+
+        if (target.stopDuration > 0) {
+          const arrivalTime = time;
+          time += target.stopDuration;
+          speed = 0;
+          onStop(legIndex, arrivalTime, time);
+          motion.push({ time, distance });
+        }
+        continue;
+      }
+
+      distance += speed * STEP_SECONDS;
+      time += STEP_SECONDS * 1000;
+      motion.push({ time, distance });
+
+      // 巡航速度随机游走
+      speedFactor = Math.min(1 + speedVariation, Math.max(1 - speedVariation, speedFactor + (random() - 0.5) * 0.02));
+    }
+
+    return motion;
+  }
+
+  /**
+   * 按采样间隔（带抖动）对运动轨迹插值
+   */
+  private sample(
+    motion: MotionSample[],
+    duration: number,
+    waypoints: RouteWaypoint[],
+    cumulative: number[],
+    random: () => number
+  ): GPSPoint[] {
+    const { samplingInterval, samplingJitter, startTime } = this.config;
+    const points: GPSPoint[] = [];
+    let motionIndex = 0;
+    let legIndex = 0;
+
+    for (let k = 0; k * samplingInterval <= duration; k++) {
+      const jitter = samplingJitter > 0 ? (random() * 2 - 1) * samplingJitter : 0;
+      const time = Math.min(duration, Math.max(0, k * samplingInterval + jitter));
+
+      while (motionIndex < motion.length - 2 && motion[motionIndex + 1].time < time) {
+        motionIndex++;
+      }
+      const from = motion[motionIndex];
+      const to = motion[Math.min(motionIndex + 1, motion.length - 1)];
+      const ratio = to.time > from.time ? (time - from.time) / (to.time - from.time) : 0;
+      const distance = from.distance + (to.distance - from.distance) * ratio;
+
+      while (legIndex < cumulative.length - 2 && cumulative[legIndex + 1] < distance) {
+        legIndex++;
+      }
+      const legLength = cumulative[legIndex + 1] - cumulative[legIndex];
+      const fraction = legLength > 0 ? Math.min(1, (distance - cumulative[legIndex]) / legLength) : 0;
+      const position = interpolateGreatCircle(waypoints[legIndex], waypoints[legIndex + 1], fraction);
+
+      points.push({ lat: position.lat, lng: position.lng, timestamp: startTime + Math.round(time) });
+    }
+
+    return points;
+  }
+
+  /** 路段限速（米/秒） */
+  private getLegSpeed(waypoint: RouteWaypoint): number {
+    return (waypoint.speedLimit ?? this.config.cruiseSpeed) / 3.6;
+  }
+}
+
+// ==================== 路线解析 ====================
+
+/**
+ * 将路线输入解析为航点列表
+ * GeoJSON坐标按[经度, 纬度]解析，多余的高度分量被忽略
+ */
+export function parseRouteInput(route: RouteInput): RouteWaypoint[] {
+  let waypoints: RouteWaypoint[];
+
+  if (Array.isArray(route)) {
+    waypoints = route.map(waypoint => ({ ...waypoint }));
+  } else {
+    const geometry = route.type === 'Feature' ? route.geometry : route;
+    if (!geometry || geometry.type !== 'LineString' || !Array.isArray(geometry.coordinates)) {
+      throw new Error(`不支持的GeoJSON几何类型: ${geometry ? geometry.type : geometry}`);
+    }
+    waypoints = geometry.coordinates.map(([lng, lat]) => ({ lat, lng }));
+  }
+
+  if (waypoints.length < 2) {
+    throw new Error(`路线至少需要2个航点: ${waypoints.length}`);
+  }
+
+  waypoints.forEach((waypoint, index) => {
+    if (!Number.isFinite(waypoint.lat) || !Number.isFinite(waypoint.lng) ||
+        Math.abs(waypoint.lat) > 90 || Math.abs(waypoint.lng) > 180) {
+      throw new Error(`航点坐标无效: 第${index + 1}个 (${waypoint.lat}, ${waypoint.lng})`);
+    }
+    if (waypoint.stopDuration !== undefined && !(waypoint.stopDuration >= 0)) {
+      throw new Error(`航点停留时长必须为非负数: 第${index + 1}个 ${waypoint.stopDuration}`);
+    }
+    if (waypoint.speedLimit !== undefined && !(waypoint.speedLimit > 0)) {
+      throw new Error(`航点限速必须大于0: 第${index + 1}个 ${waypoint.speedLimit}`);
+    }
+  });
+
+  return waypoints;
+}
+
+export default GPSRouteGenerator;
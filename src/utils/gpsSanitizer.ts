@@ -0,0 +1,357 @@
+/**
+ * GPS输入清洗
+ * 在算法处理前修正DTU上报数据中的常见问题：乱序、重复点、零值/NaN坐标、时钟跳变及里程哨兵值，
+ * 并输出按问题类型统计的清洗报告
+ */
+
+import {
+  ExtendedGPSPoint,
+  GPSPoint,
+  SanitationEntry,
+  SanitationIssue,
+  SanitationReport,
+  SanitationResult
+} from './gpsAlgorithmPackage';
+import { EARTH_RADIUS, haversineDistance } from './gpsGeometry';
+
+/** 清洗配置 */
+export interface SanitationConfig {
+  invalidCoordinatePolicy: 'drop' | 'repair';   // 零值/NaN/越界坐标的处理方式（repair为按时间线性插值，默认：'drop'）
+  duplicateTimestampPolicy: 'keep-first' | 'average'; // 同一时间戳多个不同位置的处理方式（默认：'keep-first'）
+  nearDuplicateDistance: number;  // 近似重复点的最大距离（米，默认：1）
+  nearDuplicateInterval: number;  // 近似重复点的最大时间间隔（毫秒，默认：500）
+  maxClockJump: number;           // 时钟跳变判定阈值（毫秒，默认：3600000）
+  clockJumpPolicy: 'drop' | 'repair'; // 时钟跳变的处理方式（repair为取前后点时间的中值，默认：'repair'）
+  mileageSentinels: number[];     // 表示里程无效的哨兵值（默认：[65536]）
+  mileageSentinelPolicy: 'clear' | 'drop'; // 哨兵里程的处理方式（clear为置空里程并保留点，默认：'clear'）
+  earthRadius: number;            // 地球半径（米，默认：6371000）
+}
+
+/** 默认清洗配置 */
+export const DEFAULT_SANITATION_CONFIG: SanitationConfig = {
+  invalidCoordinatePolicy: 'drop',
+  duplicateTimestampPolicy: 'keep-first',
+  nearDuplicateDistance: 1,
+  nearDuplicateInterval: 500,
+  maxClockJump: 3600000,
+  clockJumpPolicy: 'repair',
+  mileageSentinels: [65536],
+  mileageSentinelPolicy: 'clear',
+  earthRadius: EARTH_RADIUS
+};
+
+/** 清洗过程中的点（记录其在输入中的序号） */
+interface IndexedPoint {
+  point: ExtendedGPSPoint;
+  index: number;
+}
+
+/**
+ * GPS输入清洗器
+ */
+export class GPSSanitizer {
+  private config: SanitationConfig;
+
+  constructor(config?: Partial<SanitationConfig>) {
+    this.config = { ...DEFAULT_SANITATION_CONFIG, ...config };
+
+    if (!(this.config.maxClockJump > 0)) {
+      throw new Error(`时钟跳变阈值必须大于0: ${this.config.maxClockJump}`);
+    }
+    if (!(this.config.nearDuplicateDistance >= 0) || !(this.config.nearDuplicateInterval >= 0)) {
+      throw new Error(`近似重复点阈值必须为非负数: ${this.config.nearDuplicateDistance}米/${this.config.nearDuplicateInterval}毫秒`);
+    }
+  }
+
+  /** 获取当前配置 */
+  getConfig(): SanitationConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * 清洗GPS点
+   * 处理顺序：时间戳校验 → 里程哨兵 → 时钟跳变（按输入顺序） → 按时间排序 → 坐标修复 → 重复点合并
+   * @param points 原始输入点（可包含spd/cog/mileage等扩展字段，清洗后保留）
+   */
+  sanitize(points: GPSPoint[]): SanitationResult {
+    const entries: SanitationEntry[] = [];
+    let working: IndexedPoint[] = points.map((point, index) => ({ point: { ...point }, index }));
+
+    working = this.checkTimestamps(working, entries);
+    working = this.handleMileageSentinels(working, entries);
+    working = this.handleClockJumps(working, entries);
+    working = this.sortByTime(working, entries);
+    working = this.handleInvalidCoordinates(working, entries);
+    working = this.handleDuplicates(working, entries);
+
+    const issues = this.createEmptyIssueCounts();
+    for (const entry of entries) {
+      issues[entry.issue]++;
+    }
+
+    const report: SanitationReport = {
+      inputCount: points.length,
+      outputCount: working.length,
+      droppedCount: entries.filter(entry => entry.action === 'dropped').length,
+      repairedCount: entries.filter(entry => entry.action === 'repaired').length,
+      issues,
+      entries
+    };
+
+    return {
+      points: working.map(item => item.point),
+      report
+    };
+  }
+
+  // ==================== 清洗步骤 ====================
+
+  /** 丢弃时间戳缺失或非法的点 */
+  private checkTimestamps(points: IndexedPoint[], entries: SanitationEntry[]): IndexedPoint[] {
+    return points.filter(item => {
+      const timestamp = item.point.timestamp;
+      if (typeof timestamp === 'number' && Number.isFinite(timestamp) && timestamp > 0) {
+        return true;
+      }
+      entries.push({ index: item.index, issue: 'invalidTimestamp', action: 'dropped' });
+      return false;
+    });
+  }
+
+  /** 处理里程哨兵值 */
+  private handleMileageSentinels(points: IndexedPoint[], entries: SanitationEntry[]): IndexedPoint[] {
+    return points.filter(item => {
+      const mileage = item.point.mileage;
+      if (typeof mileage !== 'number' || !this.config.mileageSentinels.includes(mileage)) {
+        return true;
+      }
+
+      if (this.config.mileageSentinelPolicy === 'drop') {
+        entries.push({ index: item.index, issue: 'mileageSentinel', action: 'dropped' });
+        return false;
+      }
+
+      item.point.mileage = null;
+      entries.push({ index: item.index, issue: 'mileageSentinel', action: 'repaired' });
+      return true;
+    });
+  }
+
+  /**
+   * 处理时钟跳变
+   * 按输入顺序，若某点与前后点的时间差均超过阈值、而前后点之间未超过阈值，则视为孤立的时钟跳变
+   */
+  private handleClockJumps(points: IndexedPoint[], entries: SanitationEntry[]): IndexedPoint[] {
+    const maxJump = this.config.maxClockJump;
+    const jumped = new Set<number>();
+
+    for (let i = 0; i < points.length; i++) {
+      const current = points[i].point.timestamp;
+      const prev = i > 0 ? points[i - 1].point.timestamp : null;
+      const next = i < points.length - 1 ? points[i + 1].point.timestamp : null;
+
+      let isJump = false;
+      if (prev !== null && next !== null) {
+        isJump = Math.abs(current - prev) > maxJump &&
+                 Math.abs(next - current) > maxJump &&
+                 Math.abs(next - prev) <= maxJump;
+      } else if (next !== null && i + 2 < points.length) {
+        // 首点：与后续两点比较
+        isJump = Math.abs(next - current) > maxJump &&
+                 Math.abs(points[i + 2].point.timestamp - next) <= maxJump;
+      } else if (prev !== null && i >= 2) {
+        // 末点：与前面两点比较
+        isJump = Math.abs(current - prev) > maxJump &&
+                 Math.abs(prev - points[i - 2].point.timestamp) <= maxJump;
+      }
+
+      if (isJump) {
+        jumped.add(i);
+      }
+    }
+
+    const result: IndexedPoint[] = [];
+    points.forEach((item, i) => {
+      if (!jumped.has(i)) {
+        result.push(item);
+        return;
+      }
+
+      if (this.config.clockJumpPolicy === 'drop') {
+        entries.push({ index: item.index, issue: 'clockJump', action: 'dropped' });
+        return;
+      }
+
+      item.point.timestamp = this.estimateTimestamp(points, i);
+      entries.push({ index: item.index, issue: 'clockJump', action: 'repaired' });
+      result.push(item);
+    });
+
+    return result;
+  }
+
+  /** 按时间排序（稳定排序），记录乱序点 */
+  private sortByTime(points: IndexedPoint[], entries: SanitationEntry[]): IndexedPoint[] {
+    let latest = -Infinity;
+    for (const item of points) {
+      if (item.point.timestamp < latest) {
+        entries.push({ index: item.index, issue: 'outOfOrder', action: 'reordered' });
+      } else {
+        latest = item.point.timestamp;
+      }
+    }
+
+    return [...points].sort((a, b) => a.point.timestamp - b.point.timestamp);
+  }
+
+  /** 处理零值/NaN/越界坐标 */
+  private handleInvalidCoordinates(points: IndexedPoint[], entries: SanitationEntry[]): IndexedPoint[] {
+    const valid = points.map(item => this.isValidCoordinate(item.point));
+    const result: IndexedPoint[] = [];
+
+    points.forEach((item, i) => {
+      if (valid[i]) {
+        result.push(item);
+        return;
+      }
+
+      if (this.config.invalidCoordinatePolicy === 'repair') {
+        const repaired = this.interpolateCoordinate(points, valid, i);
+        if (repaired) {
+          item.point.lat = repaired.lat;
+          item.point.lng = repaired.lng;
+          entries.push({ index: item.index, issue: 'invalidCoordinate', action: 'repaired' });
+          result.push(item);
+          return;
+        }
+      }
+
+      // 无法修复（前后缺少有效点）时丢弃
+      entries.push({ index: item.index, issue: 'invalidCoordinate', action: 'dropped' });
+    });
+
+    return result;
+  }
+
+  /** 合并完全重复、同时间戳和近似重复的点（输入须已按时间排序） */
+  private handleDuplicates(points: IndexedPoint[], entries: SanitationEntry[]): IndexedPoint[] {
+    const result: IndexedPoint[] = [];
+    // 当前同时间戳分组内各点的原始坐标，用于average策略（均值只写入输出点）
+    let group: { lat: number; lng: number }[] = [];
+
+    for (const item of points) {
+      const last = result[result.length - 1];
+      if (!last) {
+        result.push(item);
+        group = [{ lat: item.point.lat, lng: item.point.lng }];
+        continue;
+      }
+
+      const sameTimestamp = item.point.timestamp === last.point.timestamp;
+      const samePosition = item.point.lat === last.point.lat && item.point.lng === last.point.lng;
+
+      if (sameTimestamp && samePosition) {
+        entries.push({ index: item.index, issue: 'exactDuplicate', action: 'dropped' });
+        continue;
+      }
+
+      if (sameTimestamp) {
+        if (this.config.duplicateTimestampPolicy === 'average') {
+          group.push({ lat: item.point.lat, lng: item.point.lng });
+          last.point.lat = group.reduce((sum, p) => sum + p.lat, 0) / group.length;
+          last.point.lng = group.reduce((sum, p) => sum + p.lng, 0) / group.length;
+          entries.push({ index: item.index, issue: 'duplicateTimestamp', action: 'merged' });
+        } else {
+          entries.push({ index: item.index, issue: 'duplicateTimestamp', action: 'dropped' });
+        }
+        continue;
+      }
+
+      if (
+        item.point.timestamp - last.point.timestamp <= this.config.nearDuplicateInterval &&
+        haversineDistance(item.point, last.point, this.config.earthRadius) <= this.config.nearDuplicateDistance
+      ) {
+        entries.push({ index: item.index, issue: 'nearDuplicate', action: 'dropped' });
+        continue;
+      }
+
+      result.push(item);
+      group = [{ lat: item.point.lat, lng: item.point.lng }];
+    }
+
+    return result;
+  }
+
+  // ==================== 内部方法 ====================
+
+  /** 坐标是否有效（非NaN、在范围内、不为(0, 0)） */
+  private isValidCoordinate(point: GPSPoint): boolean {
+    return (
+      Number.isFinite(point.lat) &&
+      Number.isFinite(point.lng) &&
+      point.lat >= -90 && point.lat <= 90 &&
+      point.lng >= -180 && point.lng <= 180 &&
+      !(point.lat === 0 && point.lng === 0)
+    );
+  }
+
+  /** 按时间在前后最近的有效点之间插值坐标 */
+  private interpolateCoordinate(
+    points: IndexedPoint[],
+    valid: boolean[],
+    index: number
+  ): { lat: number; lng: number } | null {
+    let before = index - 1;
+    while (before >= 0 && !valid[before]) {
+      before--;
+    }
+    let after = index + 1;
+    while (after < points.length && !valid[after]) {
+      after++;
+    }
+
+    if (before < 0 || after >= points.length) {
+      return null;
+    }
+
+    const start = points[before].point;
+    const end = points[after].point;
+    const duration = end.timestamp - start.timestamp;
+    const ratio = duration > 0 ? (points[index].point.timestamp - start.timestamp) / duration : 0;
+
+    return {
+      lat: start.lat + (end.lat - start.lat) * ratio,
+      lng: start.lng + (end.lng - start.lng) * ratio
+    };
+  }
+
+  /** 估计跳变点的时间戳（前后点时间的中值，首末点按相邻间隔外推） */
+  private estimateTimestamp(points: IndexedPoint[], index: number): number {
+    const prev = points[index - 1]?.point.timestamp;
+    const next = points[index + 1]?.point.timestamp;
+
+    if (prev !== undefined && next !== undefined) {
+      return Math.round((prev + next) / 2);
+    }
+    if (next !== undefined) {
+      return next - Math.max(0, points[index + 2].point.timestamp - next);
+    }
+    return prev! + Math.max(0, prev! - points[index - 2].point.timestamp);
+  }
+
+  /** 创建空的问题计数 */
+  private createEmptyIssueCounts(): Record<SanitationIssue, number> {
+    return {
+      invalidTimestamp: 0,
+      mileageSentinel: 0,
+      clockJump: 0,
+      outOfOrder: 0,
+      invalidCoordinate: 0,
+      exactDuplicate: 0,
+      duplicateTimestamp: 0,
+      nearDuplicate: 0
+    };
+  }
+}
+
+export default GPSSanitizer;
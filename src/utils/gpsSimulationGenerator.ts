@@ -7,11 +7,16 @@ import {
   ISimulationGenerator,
   GPSPoint,
   MarkerInfo,
-  SimulationOptions
+  SimulationOptions,
+  SimulationResult,
+  SimulatedPointLabel,
+  DriftType,
+  NoiseModelSpec
 } from './gpsAlgorithmPackage';
-
-/** GPS异常类型 */
-type DriftType = 'static' | 'moving' | 'tunnel' | 'speed';
+import { haversineDistance } from './gpsGeometry';
+import { RandomGenerator, createSeededRandom, generateSeed, normalizeSeed } from './gpsRandom';
+import { GPSRouteGenerator, RouteGeneratorConfig, RouteInput } from './gpsRouteGenerator';
+import { INoiseModel, createNoiseModel } from './gpsNoiseModels';
 
 /** 漂移配置 */
 interface DriftConfig {
@@ -21,14 +26,31 @@ interface DriftConfig {
   distance: number;
   direction: number;
   intensity: number;
+  scale: number;       // 场景强度系数（SimulationOptions.scenarioIntensity）
+  noise?: NoiseModelSpec; // 定位噪声模型（省略时使用内置的均匀随机偏移）
 }
 
-/** 默认模拟选项 */
-const DEFAULT_SIMULATION_OPTIONS: Required<SimulationOptions> = {
+/** 支持噪声模型的场景（其余场景不产生随机位置偏移） */
+const NOISE_SCENARIOS: DriftType[] = ['static', 'moving', 'speed', 'multipath', 'cold-start'];
+
+/** 使用噪声模型时多路径的横向偏置（米，为内置15-60米区间的中值） */
+const MULTIPATH_NOISE_BIAS = 37.5;
+
+/** 点 -> 真值标注（按对象跟踪，点被替换或删除时标注随之更新） */
+type LabelMap = Map<GPSPoint, SimulatedPointLabel>;
+
+/** 默认模拟选项（种子不设默认值，每次未指定时随机生成） */
+const DEFAULT_SIMULATION_OPTIONS: Required<Omit<SimulationOptions, 'seed'>> = {
   staticDriftCount: 5,     // 静态漂移基准点数量
   movingDriftCount: 5,     // 运动漂移基准点数量
   tunnelCount: 3,          // 隧道数量
   speedScenarioCount: 4,   // 高速场景数量
+  multipathCount: 0,       // 城市峡谷多路径区段数量
+  coldStartCount: 0,       // 冷启动收敛次数
+  frozenFixCount: 0,       // 定位冻结区段数量
+  timestampGlitchCount: 0, // 时间戳异常区段数量
+  scenarioIntensity: {},   // 各场景强度系数
+  noiseModels: {},         // 各场景的噪声模型
   driftDistanceRange: [10, 200],  // 漂移距离范围
   driftDistribution: [
     { ratio: 0.9, range: [10, 50] },    // 90% 在10-50米范围
@@ -41,20 +63,26 @@ const DEFAULT_SIMULATION_OPTIONS: Required<SimulationOptions> = {
  */
 export class GPSSimulationGenerator implements ISimulationGenerator {
   
+  // 当前生成过程使用的随机数生成器（每次生成开始时按种子重建）
+  private random: RandomGenerator = Math.random;
+  
   /**
    * 生成模拟测试数据
    */
   generateSimulatedData(
     originalData: GPSPoint[], 
     options?: SimulationOptions
-  ): { points: GPSPoint[]; markers: MarkerInfo[] } {
+  ): Required<SimulationResult> {
+    
+    const { seed: requestedSeed, ...simulationOptions } = options || {};
+    const seed = this.initializeRandom(requestedSeed);
     
     if (originalData.length === 0) {
-      return { points: [], markers: [] };
+      return { points: [], markers: [], labels: [], deletedLabels: [], seed };
     }
     
-    const opts = { ...DEFAULT_SIMULATION_OPTIONS, ...options };
-    const simulatedPoints = [...originalData];
+    const opts = { ...DEFAULT_SIMULATION_OPTIONS, ...simulationOptions };
+    const { points: simulatedPoints, labels } = this.prepareSimulation(originalData);
     const markers: MarkerInfo[] = [];
     
     // 生成漂移配置
@@ -62,9 +90,72 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
     
     // 应用各种漂移效果
     for (const config of driftConfigs) {
-      this.applyDriftEffect(simulatedPoints, config, markers);
+      this.applyDriftEffect(simulatedPoints, config, markers, labels);
     }
     
+    return this.finalizeSimulation(simulatedPoints, markers, labels, seed);
+  }
+  
+  /**
+   * 由航点或GeoJSON LineString生成无噪声轨迹，再按模拟选项叠加异常场景
+   * 路线生成和异常注入使用同一个种子（options.seed优先于routeConfig.seed），结果中的seed可复现整个过程
+   * @param route 航点列表或GeoJSON LineString
+   * @param routeConfig 路线生成配置
+   * @param options 模拟选项
+   */
+  generateRouteScenario(
+    route: RouteInput,
+    routeConfig?: Partial<RouteGeneratorConfig>,
+    options?: SimulationOptions
+  ): Required<SimulationResult> {
+    const seed = options?.seed ?? routeConfig?.seed ?? generateSeed();
+    const { points } = new GPSRouteGenerator({ ...routeConfig, seed }).generate(route);
+    return this.generateSimulatedData(points, { ...options, seed });
+  }
+  
+  /**
+   * 按种子初始化随机数生成器
+   * @returns 实际使用的种子
+   */
+  private initializeRandom(seed?: number): number {
+    const actualSeed = seed === undefined ? generateSeed() : normalizeSeed(seed);
+    this.random = createSeededRandom(actualSeed);
+    return actualSeed;
+  }
+  
+  /**
+   * 复制原始数据并为每个点建立初始标注（避免修改调用方的数据）
+   */
+  private prepareSimulation(originalData: GPSPoint[]): { points: GPSPoint[]; labels: LabelMap } {
+    const labels: LabelMap = new Map();
+    const points = originalData.map((point, index) => {
+      const copy = { ...point };
+      labels.set(copy, {
+        isDrift: false,
+        scenario: null,
+        cleanPosition: { lat: point.lat, lng: point.lng },
+        originalIndex: index,
+        injected: false,
+        cleanTimestamp: point.timestamp,
+        offsetMeters: 0,
+        deleted: false
+      });
+      return copy;
+    });
+    
+    return { points, labels };
+  }
+  
+  /**
+   * 整理模拟结果：移除被删除的点、按时间排序、去重，并生成与输出点对应的标注
+   */
+  private finalizeSimulation(
+    simulatedPoints: GPSPoint[],
+    markers: MarkerInfo[],
+    labels: LabelMap,
+    seed: number
+  ): Required<SimulationResult> {
+    
     // 过滤掉被标记为删除的点
     const filteredPoints = simulatedPoints.filter(point => !point.isDeleted);
     
@@ -73,8 +164,8 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
       delete point.isDeleted;
     });
     
-    // 按时间戳排序
-    filteredPoints.sort((a, b) => a.timestamp - b.timestamp);
+    // 按真实时间排序（时间戳异常的点保持在原位置）
+    filteredPoints.sort((a, b) => labels.get(a)!.cleanTimestamp - labels.get(b)!.cleanTimestamp);
     markers.sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
     
     // 移除重复点
@@ -83,21 +174,38 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
       const key = `${point.lat},${point.lng},${point.timestamp}`;
       uniquePoints.set(key, point);
     }
-    const finalPoints = Array.from(uniquePoints.values());
+    const finalPoints: GPSPoint[] = Array.from(uniquePoints.values());
     
-    return { points: finalPoints, markers };
+    return {
+      points: finalPoints,
+      markers,
+      labels: finalPoints.map(point => labels.get(point)!),
+      deletedLabels: Array.from(labels.values()).filter(label => label.deleted),
+      seed
+    };
   }
   
   /**
    * 生成漂移配置
    */
-  private generateDriftConfigs(dataLength: number, options: Required<SimulationOptions>): DriftConfig[] {
+  private generateDriftConfigs(dataLength: number, options: Required<Omit<SimulationOptions, 'seed'>>): DriftConfig[] {
     const configs: DriftConfig[] = [];
+    const scaleOf = (type: DriftType): number => {
+      const scale = options.scenarioIntensity[type] ?? 1;
+      if (!Number.isFinite(scale) || scale <= 0) {
+        throw new Error(`场景强度系数必须为正数: ${type}=${scale}`);
+      }
+      return scale;
+    };
+    
+    for (const [type, spec] of Object.entries(options.noiseModels) as [DriftType, NoiseModelSpec | undefined][]) {
+      this.validateNoiseModel(type, spec);
+    }
     
     // 静态漂移
     for (let i = 0; i < options.staticDriftCount; i++) {
-      const startIndex = Math.floor(Math.random() * (dataLength * 0.8));
-      const duration = Math.floor(Math.random() * 15) + 5; // 5-20个点，减少持续时间
+      const startIndex = Math.floor(this.random() * (dataLength * 0.8));
+      const duration = Math.floor(this.random() * 15) + 5; // 5-20个点，减少持续时间
       const endIndex = Math.min(startIndex + duration, dataLength - 1);
       
       configs.push({
@@ -105,15 +213,16 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
         startIndex,
         endIndex,
         distance: this.getRandomDistance(options.driftDistribution),
-        direction: Math.random() * 360,
-        intensity: Math.random() * 0.3 + 0.2 // 0.2-0.5，降低强度使漂移更自然
+        direction: this.random() * 360,
+        intensity: this.random() * 0.3 + 0.2, // 0.2-0.5，降低强度使漂移更自然
+        scale: scaleOf('static')
       });
     }
     
     // 运动漂移
     for (let i = 0; i < options.movingDriftCount; i++) {
-      const startIndex = Math.floor(Math.random() * (dataLength * 0.6)) + Math.floor(dataLength * 0.2);
-      const duration = Math.floor(Math.random() * 10) + 5; // 5-15个点，减少持续时间
+      const startIndex = Math.floor(this.random() * (dataLength * 0.6)) + Math.floor(dataLength * 0.2);
+      const duration = Math.floor(this.random() * 10) + 5; // 5-15个点，减少持续时间
       const endIndex = Math.min(startIndex + duration, dataLength - 1);
       
       configs.push({
@@ -121,15 +230,16 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
         startIndex,
         endIndex,
         distance: this.getRandomDistance(options.driftDistribution),
-        direction: Math.random() * 360,
-        intensity: Math.random() * 0.2 + 0.2 // 0.2-0.4，降低强度使漂移更自然
+        direction: this.random() * 360,
+        intensity: this.random() * 0.2 + 0.2, // 0.2-0.4，降低强度使漂移更自然
+        scale: scaleOf('moving')
       });
     }
     
     // 隧道效应
     for (let i = 0; i < options.tunnelCount; i++) {
-      const startIndex = Math.floor(Math.random() * (dataLength * 0.7));
-      const duration = Math.floor(Math.random() * 20) + 10; // 10-30个点，减少持续时间
+      const startIndex = Math.floor(this.random() * (dataLength * 0.7));
+      const duration = Math.floor(this.random() * 20) + 10; // 10-30个点，减少持续时间
       const endIndex = Math.min(startIndex + duration, dataLength - 1);
       
       configs.push({
@@ -137,27 +247,61 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
         startIndex,
         endIndex,
         distance: this.getRandomDistance(options.driftDistribution) * 1.2, // 隧道漂移稍大
-        direction: Math.random() * 360,
-        intensity: Math.random() * 0.3 + 0.4 // 0.4-0.7，降低强度使漂移更自然
+        direction: this.random() * 360,
+        intensity: this.random() * 0.3 + 0.4, // 0.4-0.7，降低强度使漂移更自然
+        scale: scaleOf('tunnel')
       });
     }
     
     // 高速场景
     for (let i = 0; i < options.speedScenarioCount; i++) {
-      const startIndex = Math.floor(Math.random() * (dataLength * 0.5)) + Math.floor(dataLength * 0.3);
-      const duration = Math.floor(Math.random() * 15) + 10; // 10-25个点，减少持续时间
+      const startIndex = Math.floor(this.random() * (dataLength * 0.5)) + Math.floor(dataLength * 0.3);
+      const duration = Math.floor(this.random() * 15) + 10; // 10-25个点，减少持续时间
       const endIndex = Math.min(startIndex + duration, dataLength - 1);
       
       configs.push({
         type: 'speed',
         startIndex,
         endIndex,
-        distance: this.getRandomDistance(options.driftDistribution) * 1.5, // 高速漂移稍大
-        direction: Math.random() * 360,
-        intensity: Math.random() * 0.3 + 0.5 // 0.5-0.8，降低强度使漂移更自然
+        distance: this.getRandomDistance(options.driftDistribution) * 1.5 * scaleOf('speed'), // 高速漂移稍大
+        direction: this.random() * 360,
+        intensity: this.random() * 0.3 + 0.5, // 0.5-0.8，降低强度使漂移更自然
+        scale: scaleOf('speed')
       });
     }
     
+    // 城市峡谷多路径
+    for (let i = 0; i < options.multipathCount; i++) {
+      const startIndex = Math.floor(this.random() * (dataLength * 0.8));
+      const duration = Math.floor(this.random() * 16) + 10; // 10-25个点
+      configs.push(this.createScenarioConfig('multipath', startIndex, duration, dataLength, scaleOf('multipath')));
+    }
+    
+    // 冷启动收敛（第一次发生在轨迹起点）
+    for (let i = 0; i < options.coldStartCount; i++) {
+      const startIndex = i === 0 ? 0 : Math.floor(this.random() * (dataLength * 0.8));
+      const duration = Math.floor(this.random() * 8) + 8; // 8-15个点
+      configs.push(this.createScenarioConfig('cold-start', startIndex, duration, dataLength, scaleOf('cold-start')));
+    }
+    
+    // 定位冻结
+    for (let i = 0; i < options.frozenFixCount; i++) {
+      const startIndex = Math.floor(this.random() * (dataLength * 0.8));
+      const duration = Math.round((Math.floor(this.random() * 11) + 5) * scaleOf('frozen')); // 5-15个点
+      configs.push(this.createScenarioConfig('frozen', startIndex, duration, dataLength, scaleOf('frozen')));
+    }
+    
+    // 时间戳异常
+    for (let i = 0; i < options.timestampGlitchCount; i++) {
+      const startIndex = Math.floor(this.random() * (dataLength * 0.8)) + 1;
+      const duration = Math.floor(this.random() * 6) + 5; // 5-10个点
+      configs.push(this.createScenarioConfig('timestamp', startIndex, duration, dataLength, scaleOf('timestamp')));
+    }
+    
+    configs.forEach(config => {
+      config.noise = options.noiseModels[config.type];
+    });
+    
     // 按开始索引排序，避免重叠
     configs.sort((a, b) => a.startIndex - b.startIndex);
     
@@ -174,25 +318,46 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
     return configs.filter(config => config.startIndex < config.endIndex);
   }
   
+  /**
+   * 创建新增场景的配置（偏移距离由各场景自行按强度系数生成）
+   */
+  private createScenarioConfig(
+    type: DriftType,
+    startIndex: number,
+    duration: number,
+    dataLength: number,
+    scale: number
+  ): DriftConfig {
+    return {
+      type,
+      startIndex,
+      endIndex: Math.min(startIndex + Math.max(duration, 1), dataLength - 1),
+      distance: 0,
+      direction: this.random() * 360,
+      intensity: scale,
+      scale
+    };
+  }
+  
   /**
    * 根据分布获取随机距离
    */
   private getRandomDistance(distribution: { ratio: number; range: [number, number] }[]): number {
-    const random = Math.random();
+    const random = this.random();
     let cumulativeRatio = 0;
     
     for (const dist of distribution) {
       cumulativeRatio += dist.ratio;
       if (random <= cumulativeRatio) {
         const [min, max] = dist.range;
-        return Math.random() * (max - min) + min;
+        return this.random() * (max - min) + min;
       }
     }
     
     // 默认返回最后一个范围的随机值
     const lastDist = distribution[distribution.length - 1];
     const [min, max] = lastDist.range;
-    return Math.random() * (max - min) + min;
+    return this.random() * (max - min) + min;
   }
   
   /**
@@ -201,21 +366,34 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
   private applyDriftEffect(
     points: GPSPoint[], 
     config: DriftConfig, 
-    markers: MarkerInfo[]
+    markers: MarkerInfo[],
+    labels: LabelMap
   ): void {
     
     switch (config.type) {
       case 'static':
-        this.applyStaticDrift(points, config, markers);
+        this.applyStaticDrift(points, config, markers, labels);
         break;
       case 'moving':
-        this.applyMovingDrift(points, config, markers);
+        this.applyMovingDrift(points, config, markers, labels);
         break;
       case 'tunnel':
-        this.applyTunnelEffect(points, config, markers);
+        this.applyTunnelEffect(points, config, markers, labels);
         break;
       case 'speed':
-        this.applySpeedScenario(points, config, markers);
+        this.applySpeedScenario(points, config, markers, labels);
+        break;
+      case 'multipath':
+        this.applyMultipath(points, config, markers, labels);
+        break;
+      case 'cold-start':
+        this.applyColdStart(points, config, markers, labels);
+        break;
+      case 'frozen':
+        this.applyFrozenFix(points, config, markers, labels);
+        break;
+      case 'timestamp':
+        this.applyTimestampGlitch(points, config, markers, labels);
         break;
 
     }
@@ -227,32 +405,32 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
   private applyStaticDrift(
     points: GPSPoint[], 
     config: DriftConfig, 
-    markers: MarkerInfo[]
+    markers: MarkerInfo[],
+    labels: LabelMap
   ): void {
     
     if (config.startIndex >= points.length) return;
     
     const basePoint = points[config.startIndex];
-    const driftPointCount = Math.floor(Math.random() * 11) + 10; // 10-20个漂移点
+    const driftPointCount = Math.floor(this.random() * 11) + 10; // 10-20个漂移点
+    const noise = this.createScenarioNoise(config);
     
     // 生成多个漂移点
     for (let j = 0; j < driftPointCount; j++) {
-      // 随机选择漂移距离，90%概率小距离，10%概率大距离
-      const useSmallRange = Math.random() < 0.9;
-      const distance = useSmallRange ?
-        10 + Math.random() * 40 : // 10-50米
-        50 + Math.random() * 150; // 50-200米
-      
-      // 随机方向
-      const direction = Math.random() * 360;
+      const timestamp = basePoint.timestamp + j * 1000; // 每个点间隔1秒
+      const { distance, direction } = noise
+        ? this.sampleNoise(noise, timestamp, config.scale)
+        : this.sampleDriftOffset(config.scale);
       const driftPoint = this.calculateDriftPoint(basePoint, distance, direction);
       
       // 添加漂移点
-      points.push({
+      const injectedPoint: GPSPoint = {
         lat: driftPoint.lat,
         lng: driftPoint.lng,
-        timestamp: basePoint.timestamp + j * 1000 // 每个点间隔1秒
-      });
+        timestamp
+      };
+      points.push(injectedPoint);
+      labels.set(injectedPoint, this.createInjectedLabel(basePoint, config.type, distance, injectedPoint.timestamp));
       
       // 为主要漂移点添加标记
       if (j === 0) {
@@ -272,32 +450,32 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
   private applyMovingDrift(
     points: GPSPoint[], 
     config: DriftConfig, 
-    markers: MarkerInfo[]
+    markers: MarkerInfo[],
+    labels: LabelMap
   ): void {
     
     if (config.startIndex >= points.length) return;
     
     const basePoint = points[config.startIndex];
-    const driftPointCount = Math.floor(Math.random() * 3) + 3; // 3-5个漂移点
+    const driftPointCount = Math.floor(this.random() * 3) + 3; // 3-5个漂移点
+    const noise = this.createScenarioNoise(config);
     
     // 生成多个漂移点
     for (let j = 0; j < driftPointCount; j++) {
-      // 随机选择漂移距离，90%概率小距离，10%概率大距离
-      const useSmallRange = Math.random() < 0.9;
-      const distance = useSmallRange ?
-        10 + Math.random() * 40 : // 10-50米
-        50 + Math.random() * 150; // 50-200米
-      
-      // 随机方向
-      const direction = Math.random() * 360;
+      const timestamp = basePoint.timestamp + j * 1000; // 每个点间隔1秒
+      const { distance, direction } = noise
+        ? this.sampleNoise(noise, timestamp, config.scale)
+        : this.sampleDriftOffset(config.scale);
       const driftPoint = this.calculateDriftPoint(basePoint, distance, direction);
       
       // 添加漂移点
-      points.push({
+      const injectedPoint: GPSPoint = {
         lat: driftPoint.lat,
         lng: driftPoint.lng,
-        timestamp: basePoint.timestamp + j * 1000 // 每个点间隔1秒
-      });
+        timestamp
+      };
+      points.push(injectedPoint);
+      labels.set(injectedPoint, this.createInjectedLabel(basePoint, config.type, distance, injectedPoint.timestamp));
       
       // 为主要漂移点添加标记
       if (j === 0) {
@@ -317,13 +495,14 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
   private applyTunnelEffect(
     points: GPSPoint[], 
     config: DriftConfig, 
-    markers: MarkerInfo[]
+    markers: MarkerInfo[],
+    labels: LabelMap
   ): void {
     
     if (config.startIndex >= points.length) return;
     
-    // 随机选择要删除的点数（10-20个）
-    const pointsToRemove = Math.floor(Math.random() * 11) + 10;
+    // 随机选择要删除的点数（10-20个，按强度系数缩放）
+    const pointsToRemove = Math.max(1, Math.round((Math.floor(this.random() * 11) + 10) * config.scale));
     const endIndex = Math.min(config.startIndex + pointsToRemove, points.length);
     
     // 添加隧道标记
@@ -340,6 +519,7 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
     for (let i = config.startIndex; i < endIndex; i++) {
       if (i < points.length) {
         points[i].isDeleted = true; // 标记为删除
+        this.markDeleted(labels, points[i], 'tunnel');
       }
     }
   }
@@ -350,13 +530,15 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
   private applySpeedScenario(
     points: GPSPoint[], 
     config: DriftConfig, 
-    markers: MarkerInfo[]
+    markers: MarkerInfo[],
+    labels: LabelMap
   ): void {
     
     if (config.startIndex >= points.length) return;
     
     const basePoint = points[config.startIndex];
     const totalPoints = config.endIndex - config.startIndex + 1;
+    const noise = this.createScenarioNoise(config);
     
     // 识别直线段：计算相邻点之间的方向变化
     const isLinearSegment = (p1: GPSPoint, p2: GPSPoint, p3: GPSPoint): boolean => {
@@ -401,7 +583,7 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
     
     // 应用漂移效果到保留的点
     for (let i = config.startIndex; i <= config.endIndex && i < points.length; i++) {
-      if (!keepPoint[i]) continue;
+      if (!keepPoint[i] || points[i].isDeleted) continue; // 已被隧道删除的点不再参与
       
       const progress = (i - config.startIndex) / Math.max(totalPoints - 1, 1);
       const speedWave = Math.sin(progress * Math.PI * 2) * config.intensity; // 减少周期
@@ -409,18 +591,21 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
       const currentDirection = config.direction + Math.cos(progress * Math.PI) * 30; // 减小方向变化
       
       const driftPoint = this.calculateDriftPoint(points[i], currentDistance, currentDirection);
-      const randomOffset = this.getRandomOffset(config.distance * 0.05);
+      let position: { lat: number; lng: number };
+      if (noise) {
+        position = this.applyNoise(driftPoint, noise, points[i].timestamp, config.scale);
+      } else {
+        const randomOffset = this.getRandomOffset(config.distance * 0.05);
+        position = { lat: driftPoint.lat + randomOffset.lat, lng: driftPoint.lng + randomOffset.lng };
+      }
       
-      points[i] = {
-        lat: driftPoint.lat + randomOffset.lat,
-        lng: driftPoint.lng + randomOffset.lng,
-        timestamp: points[i].timestamp
-      };
+      this.replacePoint(points, i, { ...position, timestamp: points[i].timestamp }, 'speed', labels);
     }
     
     // 删除标记为false的点
     for (let i = points.length - 1; i >= 0; i--) {
       if (!keepPoint[i]) {
+        this.markDeleted(labels, points[i], 'speed');
         points.splice(i, 1);
       }
     }
@@ -440,11 +625,240 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
     }
   }
   
+  /**
+   * 应用城市峡谷多路径
+   * 反射信号使定位沿垂直于行驶方向偏向街道一侧，并不时跳到另一侧
+   */
+  private applyMultipath(
+    points: GPSPoint[], 
+    config: DriftConfig, 
+    markers: MarkerInfo[],
+    labels: LabelMap
+  ): void {
+    
+    if (config.startIndex >= points.length) return;
+    
+    let side = this.random() < 0.5 ? -1 : 1;
+    let sideFlips = 0;
+    let maxDistance = 0;
+    const noise = this.createScenarioNoise(config);
+    
+    for (let i = config.startIndex; i <= config.endIndex && i < points.length; i++) {
+      if (points[i].isDeleted) continue;
+      
+      // 每个点有25%概率跳到街道另一侧
+      if (i > config.startIndex && this.random() < 0.25) {
+        side = -side;
+        sideFlips++;
+      }
+      
+      // 使用噪声模型时横向偏置固定，随机成分由噪声模型叠加
+      const distance = (noise ? MULTIPATH_NOISE_BIAS : 15 + this.random() * 45) * config.scale; // 15-60米
+      const heading = this.getHeading(points, i);
+      const driftPoint = this.calculateDriftPoint(points[i], distance, heading + side * 90);
+      const position = noise ? this.applyNoise(driftPoint, noise, points[i].timestamp, config.scale) : driftPoint;
+      maxDistance = Math.max(maxDistance, distance);
+      
+      this.replacePoint(points, i, { ...position, timestamp: points[i].timestamp }, 'multipath', labels);
+    }
+    
+    markers.push({
+      type: 'drift',
+      position: { lat: points[config.startIndex].lat, lng: points[config.startIndex].lng },
+      info: `城市峡谷多路径 (最大${Math.round(maxDistance)}m, ${sideFlips}次跳边)`,
+      timestamp: points[config.startIndex].timestamp
+    });
+  }
+  
+  /**
+   * 应用冷启动收敛
+   * 接收机冷启动后最初若干个定位点从数公里外绕真实位置螺旋收敛
+   */
+  private applyColdStart(
+    points: GPSPoint[], 
+    config: DriftConfig, 
+    markers: MarkerInfo[],
+    labels: LabelMap
+  ): void {
+    
+    if (config.startIndex >= points.length) return;
+    
+    const initialDistance = (1000 + this.random() * 4000) * config.scale; // 1-5公里
+    const rotation = this.random() < 0.5 ? -45 : 45; // 每个点旋转的角度
+    const fixCount = config.endIndex - config.startIndex + 1;
+    const noise = this.createScenarioNoise(config);
+    
+    for (let i = config.startIndex; i <= config.endIndex && i < points.length; i++) {
+      if (points[i].isDeleted) continue;
+      
+      // 偏移按指数衰减，最后一个点约为初始偏移的2%
+      const progress = (i - config.startIndex) / Math.max(fixCount - 1, 1);
+      const distance = initialDistance * Math.exp(-4 * progress);
+      const direction = config.direction + (i - config.startIndex) * rotation;
+      const driftPoint = this.calculateDriftPoint(points[i], distance, direction);
+      const position = noise ? this.applyNoise(driftPoint, noise, points[i].timestamp, config.scale) : driftPoint;
+      
+      this.replacePoint(points, i, { ...position, timestamp: points[i].timestamp }, 'cold-start', labels);
+    }
+    
+    markers.push({
+      type: 'drift',
+      position: { lat: points[config.startIndex].lat, lng: points[config.startIndex].lng },
+      info: `冷启动收敛 (初始偏移${Math.round(initialDistance)}m, ${fixCount}点)`,
+      timestamp: points[config.startIndex].timestamp
+    });
+  }
+  
+  /**
+   * 应用定位冻结
+   * 接收机持续输出最后一次有效定位的坐标，时间戳照常递增而车辆仍在移动
+   */
+  private applyFrozenFix(
+    points: GPSPoint[], 
+    config: DriftConfig, 
+    markers: MarkerInfo[],
+    labels: LabelMap
+  ): void {
+    
+    if (config.startIndex >= points.length) return;
+    
+    const frozenPoint = points[config.startIndex];
+    let frozenCount = 0;
+    
+    for (let i = config.startIndex + 1; i <= config.endIndex && i < points.length; i++) {
+      if (points[i].isDeleted) continue;
+      
+      this.replacePoint(points, i, { lat: frozenPoint.lat, lng: frozenPoint.lng, timestamp: points[i].timestamp }, 'frozen', labels);
+      frozenCount++;
+    }
+    
+    markers.push({
+      type: 'drift',
+      position: { lat: frozenPoint.lat, lng: frozenPoint.lng },
+      info: `定位冻结 (${frozenCount}点)`,
+      timestamp: frozenPoint.timestamp
+    });
+  }
+  
+  /**
+   * 应用时间戳异常
+   * 区段内部分点的时间戳与前一个点重复或倒退，坐标保持不变
+   */
+  private applyTimestampGlitch(
+    points: GPSPoint[], 
+    config: DriftConfig, 
+    markers: MarkerInfo[],
+    labels: LabelMap
+  ): void {
+    
+    if (config.startIndex < 1 || config.startIndex >= points.length) return;
+    
+    let duplicateCount = 0;
+    let backwardCount = 0;
+    
+    for (let i = config.startIndex; i <= config.endIndex && i < points.length; i++) {
+      if (points[i].isDeleted || this.random() >= 0.5) continue;
+      
+      const previousTimestamp = points[i - 1].timestamp;
+      const duplicate = this.random() < 0.5;
+      const backwardMs = Math.round((1 + this.random() * 4) * config.scale) * 1000; // 倒退1-5秒
+      const timestamp = duplicate ? previousTimestamp : previousTimestamp - backwardMs;
+      
+      // 与前一个点完全重复的记录在去重时会被移除，此时跳过
+      if (timestamp === previousTimestamp && points[i].lat === points[i - 1].lat && points[i].lng === points[i - 1].lng) {
+        continue;
+      }
+      
+      this.replacePoint(points, i, { lat: points[i].lat, lng: points[i].lng, timestamp }, 'timestamp', labels);
+      if (duplicate) {
+        duplicateCount++;
+      } else {
+        backwardCount++;
+      }
+    }
+    
+    if (duplicateCount + backwardCount > 0) {
+      markers.push({
+        type: 'drift',
+        position: { lat: points[config.startIndex].lat, lng: points[config.startIndex].lng },
+        info: `时间戳异常 (重复${duplicateCount}点, 倒退${backwardCount}点)`,
+        timestamp: labels.get(points[config.startIndex])?.cleanTimestamp ?? points[config.startIndex].timestamp
+      });
+    }
+  }
+  
+  /**
+   * 用异常点替换原始点，并将其标注为指定场景的漂移点
+   */
+  private replacePoint(
+    points: GPSPoint[],
+    index: number,
+    point: GPSPoint,
+    scenario: DriftType,
+    labels: LabelMap
+  ): void {
+    const previousLabel = labels.get(points[index]);
+    points[index] = point;
+    
+    if (previousLabel) {
+      const cleanPosition = previousLabel.cleanPosition || point;
+      labels.set(point, {
+        ...previousLabel,
+        isDrift: true,
+        scenario,
+        offsetMeters: haversineDistance(point, cleanPosition)
+      });
+    }
+  }
+  
+  /**
+   * 计算点所在位置的行驶方向（度，正北为0，顺时针）
+   */
+  private getHeading(points: GPSPoint[], index: number): number {
+    const from = points[Math.max(index - 1, 0)];
+    const to = points[Math.min(index + 1, points.length - 1)];
+    const dNorth = to.lat - from.lat;
+    const dEast = (to.lng - from.lng) * Math.cos(from.lat * Math.PI / 180);
+    return Math.atan2(dEast, dNorth) * 180 / Math.PI;
+  }
+  
+  /**
+   * 创建注入漂移点的标注（真实位置为漂移发生时设备所在的基准点）
+   */
+  private createInjectedLabel(
+    basePoint: GPSPoint,
+    scenario: DriftType,
+    distance: number,
+    timestamp: number
+  ): SimulatedPointLabel {
+    return {
+      isDrift: true,
+      scenario,
+      cleanPosition: { lat: basePoint.lat, lng: basePoint.lng },
+      originalIndex: null,
+      injected: true,
+      cleanTimestamp: timestamp,
+      offsetMeters: distance,
+      deleted: false
+    };
+  }
+  
+  /**
+   * 将点的标注标记为已删除（已属于其他场景的点保留原场景）
+   */
+  private markDeleted(labels: LabelMap, point: GPSPoint, scenario: DriftType): void {
+    const label = labels.get(point);
+    if (label) {
+      label.deleted = true;
+      label.scenario = label.scenario || scenario;
+    }
+  }
+  
   /**
    * 计算漂移点坐标
    */
   private calculateDriftPoint(
-    basePoint: GPSPoint, 
+    basePoint: { lat: number; lng: number }, 
     distance: number, 
     direction: number
   ): { lat: number; lng: number } {
@@ -465,6 +879,63 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
     };
   }
   
+  /**
+   * 内置的漂移偏移：90%概率10-50米，10%概率50-200米，方向均匀随机
+   */
+  private sampleDriftOffset(scale: number): { distance: number; direction: number } {
+    const useSmallRange = this.random() < 0.9;
+    const distance = (useSmallRange ?
+      10 + this.random() * 40 : // 10-50米
+      50 + this.random() * 150) * scale; // 50-200米
+    const direction = this.random() * 360;
+    
+    return { distance, direction };
+  }
+  
+  /**
+   * 从噪声模型采样偏移，转换为距离（米）和方位角（度）
+   */
+  private sampleNoise(noise: INoiseModel, timestamp: number, scale: number): { distance: number; direction: number } {
+    const offset = noise.sample(timestamp);
+    return {
+      distance: Math.sqrt(offset.north ** 2 + offset.east ** 2) * scale,
+      direction: Math.atan2(offset.east, offset.north) * 180 / Math.PI
+    };
+  }
+  
+  /**
+   * 在位置上叠加噪声模型的偏移
+   */
+  private applyNoise(
+    position: { lat: number; lng: number },
+    noise: INoiseModel,
+    timestamp: number,
+    scale: number
+  ): { lat: number; lng: number } {
+    const { distance, direction } = this.sampleNoise(noise, timestamp, scale);
+    return this.calculateDriftPoint(position, distance, direction);
+  }
+  
+  /**
+   * 为单个场景创建噪声模型（每个场景实例独立，相关噪声的状态不跨场景延续）
+   */
+  private createScenarioNoise(config: DriftConfig): INoiseModel | null {
+    return config.noise ? createNoiseModel(config.noise, this.random) : null;
+  }
+  
+  /**
+   * 校验场景的噪声模型描述（场景是否支持、类型和参数是否有效）
+   */
+  private validateNoiseModel(type: DriftType, spec: NoiseModelSpec | undefined): void {
+    if (!spec) {
+      return;
+    }
+    if (!NOISE_SCENARIOS.includes(type)) {
+      throw new Error(`场景不支持噪声模型: ${type}`);
+    }
+    createNoiseModel(spec, this.random);
+  }
+  
   /**
    * 获取随机偏移
    */
@@ -473,9 +944,9 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
     // 使用高斯分布生成更自然的随机偏移
     const distance = Math.min(
       maxOffset,
-      Math.abs((Math.random() + Math.random() + Math.random() - 1.5) * maxOffset)
+      Math.abs((this.random() + this.random() + this.random() - 1.5) * maxOffset)
     );
-    const direction = Math.random() * 360 * Math.PI / 180;
+    const direction = this.random() * 360 * Math.PI / 180;
     
     // 考虑纬度影响，使偏移更准确
     const latOffset = (distance * Math.cos(direction)) / earthRadius * (180 / Math.PI);
@@ -490,14 +961,19 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
   generateSpecificScenario(
     originalData: GPSPoint[],
     scenarioType: DriftType,
-    intensity: number = 1.0
-  ): { points: GPSPoint[]; markers: MarkerInfo[] } {
+    intensity: number = 1.0,
+    seed?: number,
+    noiseModel?: NoiseModelSpec
+  ): Required<SimulationResult> {
+    
+    const actualSeed = this.initializeRandom(seed);
+    this.validateNoiseModel(scenarioType, noiseModel);
     
     if (originalData.length === 0) {
-      return { points: [], markers: [] };
+      return { points: [], markers: [], labels: [], deletedLabels: [], seed: actualSeed };
     }
     
-    const simulatedPoints = [...originalData];
+    const { points: simulatedPoints, labels } = this.prepareSimulation(originalData);
     const markers: MarkerInfo[] = [];
     
     const startIndex = Math.floor(originalData.length * 0.3);
@@ -508,13 +984,15 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
       startIndex,
       endIndex,
       distance: 200 * intensity,
-      direction: Math.random() * 360,
-      intensity
+      direction: this.random() * 360,
+      intensity,
+      scale: intensity,
+      noise: noiseModel
     };
     
-    this.applyDriftEffect(simulatedPoints, config, markers);
+    this.applyDriftEffect(simulatedPoints, config, markers, labels);
     
-    return { points: simulatedPoints, markers };
+    return this.finalizeSimulation(simulatedPoints, markers, labels, actualSeed);
   }
   
 
@@ -524,13 +1002,20 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
    */
   generateStressTestData(
     originalData: GPSPoint[],
-    complexity: 'low' | 'medium' | 'high' = 'medium'
-  ): { points: GPSPoint[]; markers: MarkerInfo[] } {
+    complexity: 'low' | 'medium' | 'high' = 'medium',
+    seed?: number
+  ): Required<SimulationResult> {
     
     const complexitySettings = {
       low: { staticDriftCount: 1, movingDriftCount: 1, tunnelCount: 0, speedScenarioCount: 0 },
-      medium: { staticDriftCount: 3, movingDriftCount: 2, tunnelCount: 1, speedScenarioCount: 1 },
-      high: { staticDriftCount: 5, movingDriftCount: 3, tunnelCount: 2, speedScenarioCount: 2 }
+      medium: {
+        staticDriftCount: 3, movingDriftCount: 2, tunnelCount: 1, speedScenarioCount: 1,
+        multipathCount: 1, coldStartCount: 1, frozenFixCount: 1, timestampGlitchCount: 0
+      },
+      high: {
+        staticDriftCount: 5, movingDriftCount: 3, tunnelCount: 2, speedScenarioCount: 2,
+        multipathCount: 2, coldStartCount: 1, frozenFixCount: 2, timestampGlitchCount: 1
+      }
     };
     
     const options: SimulationOptions = {
@@ -540,7 +1025,8 @@ export class GPSSimulationGenerator implements ISimulationGenerator {
         { ratio: 0.4, range: [50, 150] },
         { ratio: 0.4, range: [150, 300] },
         { ratio: 0.2, range: [300, 600] }
-      ]
+      ],
+      seed
     };
     
     return this.generateSimulatedData(originalData, options);
@@ -0,0 +1,122 @@
+/**
+ * GPS停留点检测
+ * 在处理后的有效点上识别设备在某一范围内持续停留的区域
+ */
+
+import { GPSPoint, ProcessingResult } from './gpsAlgorithmPackage';
+import { EARTH_RADIUS, haversineDistance } from './gpsGeometry';
+
+/** 停留点检测配置 */
+export interface StayPointConfig {
+  distanceThreshold: number;  // 停留范围半径（米，默认：100）
+  minDuration: number;        // 最短停留时长（毫秒，默认：300000）
+  earthRadius: number;        // 地球半径（米，默认：6371000）
+}
+
+/** 默认停留点检测配置 */
+export const DEFAULT_STAY_POINT_CONFIG: StayPointConfig = {
+  distanceThreshold: 100,
+  minDuration: 300000,
+  earthRadius: EARTH_RADIUS
+};
+
+/** 停留点 */
+export interface StayPoint {
+  centroid: { lat: number; lng: number }; // 停留区域质心
+  radius: number;             // 停留点到质心的最大距离（米）
+  arrivalTime: number;        // 到达时间（毫秒）
+  departureTime: number;      // 离开时间（毫秒）
+  duration: number;           // 停留时长（毫秒）
+  pointCount: number;         // 停留期间的有效点数
+  startIndex: number;         // 首个停留点在输入中的索引
+  endIndex: number;           // 最后一个停留点在输入中的索引
+}
+
+/**
+ * 停留点检测器
+ * 以锚点为中心向后扩展，直到出现超出范围的点；若覆盖时长达到阈值则记为一次停留
+ */
+export class GPSStayPointDetector {
+  private config: StayPointConfig;
+
+  constructor(config?: Partial<StayPointConfig>) {
+    this.config = { ...DEFAULT_STAY_POINT_CONFIG, ...config };
+
+    if (!(this.config.distanceThreshold > 0)) {
+      throw new Error(`停留范围半径必须大于0: ${this.config.distanceThreshold}`);
+    }
+    if (!(this.config.minDuration >= 0)) {
+      throw new Error(`最短停留时长必须为非负数: ${this.config.minDuration}`);
+    }
+  }
+
+  /** 获取当前配置 */
+  getConfig(): StayPointConfig {
+    return { ...this.config };
+  }
+
+  /** 检测处理结果中有效点的停留点 */
+  detectFromResult(result: ProcessingResult): StayPoint[] {
+    return this.detect(result.processedPoints);
+  }
+
+  /**
+   * 检测停留点
+   * @param points 按时间排序的有效点
+   * @returns 按时间排序的停留点列表
+   */
+  detect(points: GPSPoint[]): StayPoint[] {
+    const stayPoints: StayPoint[] = [];
+    let i = 0;
+
+    while (i < points.length) {
+      let j = i + 1;
+      while (
+        j < points.length &&
+        haversineDistance(points[i], points[j], this.config.earthRadius) <= this.config.distanceThreshold
+      ) {
+        j++;
+      }
+
+      const lastIndex = j - 1;
+      const duration = points[lastIndex].timestamp - points[i].timestamp;
+
+      if (lastIndex > i && duration >= this.config.minDuration) {
+        stayPoints.push(this.buildStayPoint(points, i, lastIndex));
+        i = j;
+      } else {
+        i++;
+      }
+    }
+
+    return stayPoints;
+  }
+
+  /** 构建停留点信息 */
+  private buildStayPoint(points: GPSPoint[], startIndex: number, endIndex: number): StayPoint {
+    const stayPoints = points.slice(startIndex, endIndex + 1);
+    const centroid = {
+      lat: stayPoints.reduce((sum, p) => sum + p.lat, 0) / stayPoints.length,
+      lng: stayPoints.reduce((sum, p) => sum + p.lng, 0) / stayPoints.length
+    };
+    const radius = stayPoints.reduce(
+      (max, p) => Math.max(max, haversineDistance(p, centroid, this.config.earthRadius)),
+      0
+    );
+    const arrivalTime = points[startIndex].timestamp;
+    const departureTime = points[endIndex].timestamp;
+
+    return {
+      centroid,
+      radius,
+      arrivalTime,
+      departureTime,
+      duration: departureTime - arrivalTime,
+      pointCount: stayPoints.length,
+      startIndex,
+      endIndex
+    };
+  }
+}
+
+export default GPSStayPointDetector;
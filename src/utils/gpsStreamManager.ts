@@ -0,0 +1,342 @@
+/**
+ * 多设备GPS流管理器
+ * 按设备ID路由GPS点到各自的算法实例，支持懒创建、空闲淘汰和统计汇总
+ */
+
+import {
+  IGPSAlgorithm,
+  AlgorithmConfig,
+  AlgorithmStatus,
+  GPSPoint,
+  ProcessingStatistics
+} from './gpsAlgorithmPackage';
+import { GpsTrajectoryAnalyzer } from './gpsTrajectoryAnalyzer';
+import { GPSClock, SystemClock } from './gpsClock';
+import { FeasibilityConstraint } from './gpsFeasibilityFilter';
+
+/** 流管理器配置 */
+export interface StreamManagerOptions {
+  algorithmFactory?: (config: Partial<AlgorithmConfig>) => IGPSAlgorithm; // 算法实例工厂（默认：GpsTrajectoryAnalyzer）
+  sharedConfig?: Partial<AlgorithmConfig>;                   // 所有设备共享的配置
+  deviceConfigs?: Record<string, Partial<AlgorithmConfig>>; // 按设备覆盖的配置
+  idleTimeoutMs?: number;                                    // 空闲淘汰时间（毫秒，默认：1800000）
+  autoEvict?: boolean;                                       // 处理点时是否自动淘汰空闲设备（默认：true）
+  onEvict?: (deviceId: string, algorithm: IGPSAlgorithm) => void; // 设备被淘汰前的回调（可用于持久化状态）
+  clock?: GPSClock;                                          // 空闲判定使用的时钟（默认：系统时钟）
+}
+
+/** 单设备统计信息 */
+export interface DeviceStreamStatistics extends ProcessingStatistics {
+  deviceId: string;
+  createdAt: number;   // 实例创建时间
+  lastSeenAt: number;  // 最近一次收到点的时间
+}
+
+/** 车队汇总统计信息 */
+export interface FleetStatistics extends ProcessingStatistics {
+  activeDeviceCount: number;   // 当前活跃设备数
+  evictedDeviceCount: number;  // 累计淘汰设备数
+}
+
+/** 设备流上下文 */
+interface DeviceStream {
+  algorithm: IGPSAlgorithm;
+  createdAt: number;
+  lastSeenAt: number;
+  inputCount: number;
+  acceptedCount: number;
+  filteredCount: number;
+  processingTimeMs: number;
+}
+
+/** 默认空闲淘汰时间（30分钟） */
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** 算法按需提供、汇总时逐项累加的计数 */
+const OPTIONAL_COUNTERS = [
+  'speedRejectedPointsCount',
+  'headingRejectedPointsCount',
+  'speedRescuedPointsCount',
+  'feasibilityRejectedPointsCount',
+  'gapCount',
+  'totalGapDuration',
+  'interpolatedPointsCount',
+  'reducedPointsCount'
+] as const;
+
+/**
+ * 多设备GPS流管理器
+ */
+export class GPSStreamManager {
+  private streams = new Map<string, DeviceStream>();
+  private algorithmFactory: (config: Partial<AlgorithmConfig>) => IGPSAlgorithm;
+  private sharedConfig: Partial<AlgorithmConfig>;
+  private deviceConfigs: Record<string, Partial<AlgorithmConfig>>;
+  private idleTimeoutMs: number;
+  private autoEvict: boolean;
+  private onEvict?: (deviceId: string, algorithm: IGPSAlgorithm) => void;
+  private clock: GPSClock;
+
+  // 已淘汰设备的累计统计
+  private evictedTotals: ProcessingStatistics = this.createEmptyStatistics();
+  private evictedDeviceCount = 0;
+
+  constructor(options: StreamManagerOptions = {}) {
+    this.algorithmFactory = options.algorithmFactory || (config => new GpsTrajectoryAnalyzer(config));
+    this.sharedConfig = { ...options.sharedConfig };
+    this.deviceConfigs = { ...options.deviceConfigs };
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.autoEvict = options.autoEvict ?? true;
+    this.onEvict = options.onEvict;
+    this.clock = options.clock || new SystemClock();
+  }
+
+  // ==================== 数据处理 ====================
+
+  /**
+   * 处理单个设备的GPS点
+   * @param deviceId 设备ID
+   * @param point GPS点
+   * @param now 当前时间（毫秒，用于空闲判定，默认取时钟时间）
+   * @returns 是否为有效点
+   */
+  processPoint(deviceId: string, point: GPSPoint, now?: number): boolean {
+    this.clock.observe(point.timestamp);
+    const currentTime = now ?? this.clock.now();
+
+    if (this.autoEvict) {
+      this.evictIdleDevices(currentTime);
+    }
+
+    const stream = this.getOrCreateStream(deviceId, currentTime);
+    const startTime = Date.now();
+    const isValid = stream.algorithm.processPoint(point);
+
+    stream.processingTimeMs += Date.now() - startTime;
+    stream.lastSeenAt = currentTime;
+    stream.inputCount++;
+    if (isValid) {
+      stream.acceptedCount++;
+    } else {
+      stream.filteredCount++;
+    }
+
+    return isValid;
+  }
+
+  /**
+   * 批量处理交错的多设备GPS点
+   * @returns 与输入顺序一致的判定结果
+   */
+  processBatch(items: { deviceId: string; point: GPSPoint }[], now?: number): boolean[] {
+    return items.map(item => this.processPoint(item.deviceId, item.point, now));
+  }
+
+  // ==================== 设备管理 ====================
+
+  /** 设置设备专属配置（已存在的实例立即生效） */
+  setDeviceConfig(deviceId: string, config: Partial<AlgorithmConfig>): void {
+    this.deviceConfigs[deviceId] = { ...this.deviceConfigs[deviceId], ...config };
+
+    const stream = this.streams.get(deviceId);
+    if (stream) {
+      stream.algorithm.setConfig(this.resolveConfig(deviceId));
+    }
+  }
+
+  /** 获取设备的生效配置 */
+  getDeviceConfig(deviceId: string): Partial<AlgorithmConfig> {
+    return this.resolveConfig(deviceId);
+  }
+
+  /** 获取设备的算法实例（不存在时返回null） */
+  getAlgorithm(deviceId: string): IGPSAlgorithm | null {
+    return this.streams.get(deviceId)?.algorithm || null;
+  }
+
+  /** 获取设备算法状态 */
+  getDeviceStatus(deviceId: string): AlgorithmStatus | null {
+    return this.streams.get(deviceId)?.algorithm.getStatus() || null;
+  }
+
+  /** 获取当前活跃设备ID列表 */
+  getDeviceIds(): string[] {
+    return Array.from(this.streams.keys());
+  }
+
+  /** 移除设备（其统计计入已淘汰累计） */
+  removeDevice(deviceId: string): boolean {
+    const stream = this.streams.get(deviceId);
+    if (!stream) {
+      return false;
+    }
+
+    if (this.onEvict) {
+      this.onEvict(deviceId, stream.algorithm);
+    }
+
+    this.accumulate(this.evictedTotals, this.buildStreamStatistics(stream));
+    this.evictedDeviceCount++;
+    this.streams.delete(deviceId);
+    return true;
+  }
+
+  /**
+   * 淘汰空闲超时的设备
+   * @param now 当前时间（毫秒）
+   * @returns 被淘汰的设备ID
+   */
+  evictIdleDevices(now: number = this.clock.now()): string[] {
+    const evicted: string[] = [];
+
+    for (const [deviceId, stream] of this.streams) {
+      if (now - stream.lastSeenAt > this.idleTimeoutMs) {
+        evicted.push(deviceId);
+      }
+    }
+
+    for (const deviceId of evicted) {
+      this.removeDevice(deviceId);
+    }
+
+    return evicted;
+  }
+
+  /** 清空所有设备及统计 */
+  clear(): void {
+    this.streams.clear();
+    this.evictedTotals = this.createEmptyStatistics();
+    this.evictedDeviceCount = 0;
+    this.clock.reset();
+  }
+
+  // ==================== 统计查询 ====================
+
+  /** 获取单设备统计 */
+  getDeviceStatistics(deviceId: string): DeviceStreamStatistics | null {
+    const stream = this.streams.get(deviceId);
+    if (!stream) {
+      return null;
+    }
+
+    return {
+      deviceId,
+      createdAt: stream.createdAt,
+      lastSeenAt: stream.lastSeenAt,
+      ...this.buildStreamStatistics(stream)
+    };
+  }
+
+  /** 获取所有活跃设备统计 */
+  getAllDeviceStatistics(): DeviceStreamStatistics[] {
+    return this.getDeviceIds()
+      .map(deviceId => this.getDeviceStatistics(deviceId))
+      .filter((stats): stats is DeviceStreamStatistics => stats !== null);
+  }
+
+  /** 获取车队汇总统计（包含已淘汰设备的累计） */
+  getFleetStatistics(): FleetStatistics {
+    const totals: ProcessingStatistics = { ...this.evictedTotals };
+
+    for (const stream of this.streams.values()) {
+      this.accumulate(totals, this.buildStreamStatistics(stream));
+    }
+
+    totals.filteringRate = totals.totalInputPoints > 0
+      ? totals.filteredPointsCount / totals.totalInputPoints
+      : 0;
+
+    return {
+      ...totals,
+      activeDeviceCount: this.streams.size,
+      evictedDeviceCount: this.evictedDeviceCount
+    };
+  }
+
+  // ==================== 内部方法 ====================
+
+  /** 获取或懒创建设备流 */
+  private getOrCreateStream(deviceId: string, now: number): DeviceStream {
+    let stream = this.streams.get(deviceId);
+    if (!stream) {
+      stream = {
+        algorithm: this.algorithmFactory(this.resolveConfig(deviceId)),
+        createdAt: now,
+        lastSeenAt: now,
+        inputCount: 0,
+        acceptedCount: 0,
+        filteredCount: 0,
+        processingTimeMs: 0
+      };
+      this.streams.set(deviceId, stream);
+    }
+    return stream;
+  }
+
+  /** 合并共享配置和设备配置 */
+  private resolveConfig(deviceId: string): Partial<AlgorithmConfig> {
+    return { ...this.sharedConfig, ...this.deviceConfigs[deviceId] };
+  }
+
+  /**
+   * 构建设备流的统计信息
+   * 点数优先取算法自身的统计（包含直线运动误判恢复等事后修正），算法未提供时退回逐点判定结果的计数
+   */
+  private buildStreamStatistics(stream: DeviceStream): ProcessingStatistics {
+    const algorithmStats = stream.algorithm.getStatus().statistics;
+    const totalInputPoints = algorithmStats.totalInputPoints ?? stream.inputCount;
+    const filteredPointsCount = algorithmStats.filteredPointsCount ?? stream.filteredCount;
+
+    return {
+      ...algorithmStats,
+      totalInputPoints,
+      validOutputPoints: algorithmStats.validOutputPoints ?? stream.acceptedCount,
+      filteredPointsCount,
+      discardedDriftPointsCount: algorithmStats.discardedDriftPointsCount || 0,
+      basePointRebuildsCount: algorithmStats.basePointRebuildsCount || 0,
+      processingTimeMs: stream.processingTimeMs,
+      filteringRate: totalInputPoints > 0 ? filteredPointsCount / totalInputPoints : 0
+    };
+  }
+
+  /** 累加统计信息（可选计数仅在来源提供时累加） */
+  private accumulate(target: ProcessingStatistics, source: ProcessingStatistics): void {
+    target.totalInputPoints += source.totalInputPoints;
+    target.validOutputPoints += source.validOutputPoints;
+    target.filteredPointsCount += source.filteredPointsCount;
+    target.discardedDriftPointsCount += source.discardedDriftPointsCount;
+    target.basePointRebuildsCount += source.basePointRebuildsCount;
+    target.processingTimeMs += source.processingTimeMs;
+
+    for (const key of OPTIONAL_COUNTERS) {
+      const value = source[key];
+      if (value !== undefined) {
+        target[key] = (target[key] || 0) + value;
+      }
+    }
+
+    if (source.feasibilityViolations) {
+      // 新建对象，避免修改已淘汰累计中的同一引用
+      const violations: Record<FeasibilityConstraint, number> = { speed: 0, acceleration: 0, yawRate: 0, ...target.feasibilityViolations };
+      for (const constraint of Object.keys(source.feasibilityViolations) as FeasibilityConstraint[]) {
+        violations[constraint] += source.feasibilityViolations[constraint];
+      }
+      target.feasibilityViolations = violations;
+    }
+  }
+
+  /** 创建空统计信息 */
+  private createEmptyStatistics(): ProcessingStatistics {
+    return {
+      totalInputPoints: 0,
+      validOutputPoints: 0,
+      filteredPointsCount: 0,
+      discardedDriftPointsCount: 0,
+      basePointRebuildsCount: 0,
+      processingTimeMs: 0,
+      filteringRate: 0
+    };
+  }
+}
+
+export default GPSStreamManager;
\ No newline at end of file
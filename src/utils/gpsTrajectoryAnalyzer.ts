@@ -8,18 +8,29 @@ import {
   AlgorithmConfig,
   AlgorithmStatus,
   GPSPoint,
+  ExtendedGPSPoint,
   ProcessingResult,
   ProcessingStatistics,
   MarkerInfo,
+  PointDecisionTrace,
+  GapSegment,
+  InterpolatedGPSPoint,
   DEFAULT_CONFIG
 } from './gpsAlgorithmPackage';
+import { calculateBearing, angleDifference } from './gpsGeometry';
+import { FeasibilityConstraint, checkFeasibility, resolveVehicleProfile } from './gpsFeasibilityFilter';
+import { interpolateGap } from './gpsGapInterpolator';
+import { GPSClock, DataClock } from './gpsClock';
+import { assertValidAlgorithmConfig } from './gpsConfigSchema';
 
 /** 算法内部使用的GPS点结构 */
-interface InternalGPSPoint {
+export interface InternalGPSPoint {
   lat: number;
   lng: number;
   timestamp: number;
   index?: number;
+  spd?: number | null;  // 上报速度（km/h）
+  cog?: number | null;  // 上报航向（度）
 }
 
 /** 滑动窗口点结构 */
@@ -29,14 +40,81 @@ interface WindowPoint {
   isDrift: boolean;
 }
 
+/** 漂移判定结果 */
+interface DriftEvaluation {
+  isDrift: boolean;
+  cause: 'distance' | 'speed' | 'heading' | 'feasibility' | null; // 判为漂移的原因
+  distance: number | null;       // 与基准点距离（米）
+  threshold: number | null;      // 生效的漂移阈值（米）
+  baseThreshold: number | null;  // 未按速度放宽的阈值（米）
+  speedScaled: boolean;          // 阈值是否按速度放宽
+  violation: FeasibilityConstraint | null; // 违反的载具物理约束
+}
+
 /** 基准点信息 */
 interface BasePointInfo {
   point: InternalGPSPoint;
   radius: number;
-  createdAt: number;
+  createdAt: number;  // 创建时间（时钟时间，默认为数据时间）
   validPointsCount: number;
 }
 
+/** 状态快照格式版本（2：基准点createdAt改为时钟时间；导入时自动迁移v1快照） */
+export const ANALYZER_STATE_VERSION = 2;
+
+/**
+ * 算法状态快照
+ * 包含processPoint依赖的全部内部状态，可JSON序列化，用于跨请求恢复流式处理
+ * 判定追踪记录不属于判定依赖，不包含在快照中
+ */
+export interface AnalyzerStateSnapshot {
+  version: number;
+  config: AlgorithmConfig;
+  slidingWindow: {
+    point: InternalGPSPoint;
+    isValid: boolean;
+    isDrift: boolean;
+  }[];
+  validPoints: InternalGPSPoint[];
+  basePoint: {
+    point: InternalGPSPoint;
+    radius: number;
+    createdAt: number;
+    validPointsCount: number;
+  } | null;
+  consecutiveDriftCount: number;
+  processedCount: number;
+  filteredCount: number;
+  driftCount: number;
+  basePointRebuilds: number;
+  speedRejectedCount?: number;
+  headingRejectedCount?: number;
+  speedRescuedCount?: number;
+  feasibilityViolations?: Record<FeasibilityConstraint, number>;
+  referenceStartIndex?: number;
+  clockTime?: number;             // 导出时的时钟时间（最新数据时间可能已移出滑动窗口）
+}
+
+/**
+ * 将旧版本状态快照迁移到当前版本
+ * v1快照不含时钟时间，以滑动窗口中最新的数据时间和基准点createdAt（v1为墙上时间）两者的最大值作为时钟时间，
+ * 保证恢复后的基准点年龄不为负
+ */
+function migrateSnapshot(snapshot: AnalyzerStateSnapshot): AnalyzerStateSnapshot {
+  if (typeof snapshot !== 'object' || snapshot === null || snapshot.version !== 1 || !Array.isArray(snapshot.slidingWindow)) {
+    return snapshot;
+  }
+  
+  const timestamps = [...snapshot.slidingWindow.map(wp => wp.point?.timestamp), snapshot.basePoint?.createdAt]
+    .filter((timestamp): timestamp is number => Number.isFinite(timestamp));
+  
+  return {
+    ...snapshot,
+    version: 2,
+    clockTime: timestamps.length > 0 ? Math.max(...timestamps) : undefined
+  };
+}
+
 /**
  * DTU GPS处理算法实现类
  */
@@ -46,19 +124,35 @@ export class GpsTrajectoryAnalyzer implements IGPSAlgorithm {
   // 算法状态
   private slidingWindow: WindowPoint[] = [];
   private validPoints: InternalGPSPoint[] = [];
+  // validPoints中仍可作为参照的起始序号（物理可行性检查和初始基准点只使用此后的有效点），重建基准点时前移
+  private referenceStartIndex = 0;
   private basePoint: BasePointInfo | null = null;
   private consecutiveDriftCount = 0;
   private processedCount = 0;
   private filteredCount = 0;
   private driftCount = 0;
   private basePointRebuilds = 0;
+  private speedRejectedCount = 0;
+  private headingRejectedCount = 0;
+  private speedRescuedCount = 0;
+  private feasibilityViolations: Record<FeasibilityConstraint, number> = { speed: 0, acceleration: 0, yawRate: 0 };
   private isInitialized = false;
   
   // 处理结果缓存
   private lastProcessingResult: ProcessingResult | null = null;
   
-  constructor(config?: Partial<AlgorithmConfig>) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
+  // 逐点判定追踪
+  private traceEntries: PointDecisionTrace[] = [];
+  
+  // 数据缺口
+  private gapSegments: GapSegment[] = [];
+  
+  // 时钟（默认跟随数据时间戳）
+  private clock: GPSClock;
+  
+  constructor(config?: Partial<AlgorithmConfig>, clock: GPSClock = new DataClock()) {
+    this.config = assertValidAlgorithmConfig({ ...DEFAULT_CONFIG, ...config });
+    this.clock = clock;
     this.reset();
   }
   
@@ -77,7 +171,7 @@ export class GpsTrajectoryAnalyzer implements IGPSAlgorithm {
   }
   
   setConfig(config: Partial<AlgorithmConfig>): void {
-    this.config = { ...this.config, ...config };
+    this.config = assertValidAlgorithmConfig({ ...this.config, ...config });
     this.log('info', `配置已更新: ${JSON.stringify(config)}`);
   }
   
@@ -88,14 +182,22 @@ export class GpsTrajectoryAnalyzer implements IGPSAlgorithm {
   reset(): void {
     this.slidingWindow = [];
     this.validPoints = [];
+    this.referenceStartIndex = 0;
     this.basePoint = null;
     this.consecutiveDriftCount = 0;
     this.processedCount = 0;
     this.filteredCount = 0;
     this.driftCount = 0;
     this.basePointRebuilds = 0;
+    this.speedRejectedCount = 0;
+    this.headingRejectedCount = 0;
+    this.speedRescuedCount = 0;
+    this.feasibilityViolations = { speed: 0, acceleration: 0, yawRate: 0 };
     this.isInitialized = true;
     this.lastProcessingResult = null;
+    this.traceEntries = [];
+    this.gapSegments = [];
+    this.clock.reset();
     
     this.log('info', '算法状态已重置');
   }
@@ -112,26 +214,64 @@ export class GpsTrajectoryAnalyzer implements IGPSAlgorithm {
       index: this.processedCount
     };
     
+    const extendedPoint = point as ExtendedGPSPoint;
+    if (typeof extendedPoint.spd === 'number') {
+      internalPoint.spd = extendedPoint.spd;
+    }
+    if (typeof extendedPoint.cog === 'number') {
+      internalPoint.cog = extendedPoint.cog;
+    }
+    
     this.processedCount++;
+    this.clock.observe(internalPoint.timestamp);
+    
+    // 检查与上一个输入点之间的数据缺口
+    const basePointResetByGap = this.detectGap(internalPoint);
     
     // 添加到滑动窗口
     this.addToSlidingWindow(internalPoint);
     
     // 检查基准点是否过期
-    this.checkBasePointExpiry(internalPoint.timestamp);
+    const hadBasePoint = this.basePoint !== null;
+    this.checkBasePointExpiry();
+    let basePointCleared: 'expired' | 'gap' | null = null;
+    if (basePointResetByGap) {
+      basePointCleared = 'gap';
+    } else if (hadBasePoint && this.basePoint === null) {
+      basePointCleared = 'expired';
+    }
     
     // 判断是否为漂移点
-    const isDrift = this.isDriftPoint(internalPoint);
+    const evaluation = this.evaluateDrift(internalPoint);
+    const isDrift = evaluation.isDrift;
+    this.recordKinematicStatistics(evaluation);
+    
+    const traceEntry = this.config.enableDecisionTrace
+      ? this.createTraceEntry(point, internalPoint, evaluation, basePointCleared)
+      : null;
+    const rebuildsBefore = this.basePointRebuilds;
     
     if (isDrift) {
       this.consecutiveDriftCount++;
       this.handleDriftPoint(internalPoint);
-      return false;
     } else {
       this.consecutiveDriftCount = 0;
       this.handleValidPoint(internalPoint);
-      return true;
     }
+    
+    if (traceEntry) {
+      traceEntry.consecutiveDriftCount = this.consecutiveDriftCount;
+      traceEntry.triggeredRebuild = this.basePointRebuilds > rebuildsBefore;
+      traceEntry.windowSnapshot = this.slidingWindow.map(wp => ({
+        lat: wp.point.lat,
+        lng: wp.point.lng,
+        timestamp: wp.point.timestamp,
+        isValid: wp.isValid,
+        isDrift: wp.isDrift
+      }));
+    }
+    
+    return !isDrift;
   }
   
   processTrajectory(points: GPSPoint[]): ProcessingResult {
@@ -145,10 +285,13 @@ export class GpsTrajectoryAnalyzer implements IGPSAlgorithm {
     const filteredPoints: GPSPoint[] = [];
     const markers: MarkerInfo[] = [];
     
+    const validity: boolean[] = [];
+    
     // 逐点处理
     for (let i = 0; i < points.length; i++) {
       const point = points[i];
       const isValid = this.processPoint(point);
+      validity.push(isValid);
       
       if (isValid) {
         processedPoints.push(point);
@@ -157,6 +300,11 @@ export class GpsTrajectoryAnalyzer implements IGPSAlgorithm {
       }
     }
     
+    // 缺口插值
+    const interpolatedPoints = this.config.gapInterpolation !== 'none'
+      ? this.interpolateGaps(validity)
+      : [];
+    
     // 生成标记信息
     this.generateMarkers(markers, originalPoints);
     
@@ -171,6 +319,17 @@ export class GpsTrajectoryAnalyzer implements IGPSAlgorithm {
       filteringRate: originalPoints.length > 0 ? filteredPoints.length / originalPoints.length : 0
     };
     
+    if (this.config.driftDetectionMode === 'kinematic') {
+      statistics.speedRejectedPointsCount = this.speedRejectedCount;
+      statistics.headingRejectedPointsCount = this.headingRejectedCount;
+      statistics.speedRescuedPointsCount = this.speedRescuedCount;
+    }
+    
+    if (this.config.vehicleProfile !== 'none') {
+      statistics.feasibilityRejectedPointsCount = this.getFeasibilityRejectedCount();
+      statistics.feasibilityViolations = { ...this.feasibilityViolations };
+    }
+    
     const result: ProcessingResult = {
       originalPoints,
       processedPoints,
@@ -179,6 +338,21 @@ export class GpsTrajectoryAnalyzer implements IGPSAlgorithm {
       markers
     };
     
+    if (this.isGapDetectionEnabled()) {
+      statistics.gapCount = this.gapSegments.length;
+      statistics.totalGapDuration = this.gapSegments.reduce((sum, gap) => sum + gap.duration, 0);
+      result.gaps = this.getGaps();
+    }
+    
+    if (this.config.gapInterpolation !== 'none') {
+      statistics.interpolatedPointsCount = interpolatedPoints.length;
+      result.interpolatedPoints = interpolatedPoints;
+    }
+    
+    if (this.config.enableDecisionTrace) {
+      result.trace = [...this.traceEntries];
+    }
+    
     this.lastProcessingResult = result;
     
     this.log('info', `轨迹处理完成: 输入${originalPoints.length}点，输出${processedPoints.length}点，过滤${filteredPoints.length}点`);
@@ -194,7 +368,7 @@ export class GpsTrajectoryAnalyzer implements IGPSAlgorithm {
       hasBasePoint: this.basePoint !== null,
       basePointRadius: this.basePoint?.radius || 0,
       consecutiveDriftCount: this.consecutiveDriftCount,
-      basePointAge: this.basePoint ? Date.now() - this.basePoint.createdAt : 0,
+      basePointAge: this.basePoint ? this.clock.now() - this.basePoint.createdAt : 0,
       isBasePointExpired: this.isBasePointExpired(),
       basePoint: this.basePoint ? { lat: this.basePoint.point.lat, lng: this.basePoint.point.lng } : null,
       statistics: {
@@ -202,11 +376,140 @@ export class GpsTrajectoryAnalyzer implements IGPSAlgorithm {
         validOutputPoints: this.validPoints.length,
         filteredPointsCount: this.filteredCount,
         discardedDriftPointsCount: this.driftCount,
-        basePointRebuildsCount: this.basePointRebuilds
+        basePointRebuildsCount: this.basePointRebuilds,
+        speedRejectedPointsCount: this.speedRejectedCount,
+        headingRejectedPointsCount: this.headingRejectedCount,
+        speedRescuedPointsCount: this.speedRescuedCount,
+        feasibilityRejectedPointsCount: this.getFeasibilityRejectedCount(),
+        feasibilityViolations: { ...this.feasibilityViolations }
       }
     };
   }
   
+  /** 获取逐点判定追踪记录（需开启enableDecisionTrace） */
+  getDecisionTrace(): PointDecisionTrace[] {
+    return [...this.traceEntries];
+  }
+  
+  /** 获取已检测到的数据缺口 */
+  getGaps(): GapSegment[] {
+    return this.gapSegments.map(gap => ({ ...gap }));
+  }
+  
+  // ==================== 状态快照 ====================
+  
+  /** 导出当前算法状态（可JSON序列化） */
+  exportState(): AnalyzerStateSnapshot {
+    const copyPoint = (point: InternalGPSPoint): InternalGPSPoint => ({ ...point });
+    
+    return {
+      version: ANALYZER_STATE_VERSION,
+      config: { ...this.config },
+      slidingWindow: this.slidingWindow.map(wp => ({
+        point: copyPoint(wp.point),
+        isValid: wp.isValid,
+        isDrift: wp.isDrift
+      })),
+      validPoints: this.validPoints.map(copyPoint),
+      basePoint: this.basePoint
+        ? {
+            point: copyPoint(this.basePoint.point),
+            radius: this.basePoint.radius,
+            createdAt: this.basePoint.createdAt,
+            validPointsCount: this.basePoint.validPointsCount
+          }
+        : null,
+      consecutiveDriftCount: this.consecutiveDriftCount,
+      processedCount: this.processedCount,
+      filteredCount: this.filteredCount,
+      driftCount: this.driftCount,
+      basePointRebuilds: this.basePointRebuilds,
+      speedRejectedCount: this.speedRejectedCount,
+      headingRejectedCount: this.headingRejectedCount,
+      speedRescuedCount: this.speedRescuedCount,
+      feasibilityViolations: { ...this.feasibilityViolations },
+      referenceStartIndex: this.referenceStartIndex,
+      clockTime: this.clock.now()
+    };
+  }
+  
+  /** 从快照（对象或JSON字符串）恢复算法状态 */
+  importState(state: AnalyzerStateSnapshot | string): void {
+    const snapshot = migrateSnapshot(typeof state === 'string' ? JSON.parse(state) : state);
+    this.validateSnapshot(snapshot);
+    
+    const copyPoint = (point: InternalGPSPoint): InternalGPSPoint => ({ ...point });
+    
+    this.config = assertValidAlgorithmConfig({ ...DEFAULT_CONFIG, ...snapshot.config });
+    this.slidingWindow = snapshot.slidingWindow.map(wp => ({
+      point: copyPoint(wp.point),
+      isValid: wp.isValid,
+      isDrift: wp.isDrift
+    }));
+    this.validPoints = snapshot.validPoints.map(copyPoint);
+    this.referenceStartIndex = Math.min(snapshot.referenceStartIndex ?? 0, this.validPoints.length);
+    this.basePoint = snapshot.basePoint
+      ? {
+          point: copyPoint(snapshot.basePoint.point),
+          radius: snapshot.basePoint.radius,
+          createdAt: snapshot.basePoint.createdAt,
+          validPointsCount: snapshot.basePoint.validPointsCount
+        }
+      : null;
+    this.consecutiveDriftCount = snapshot.consecutiveDriftCount;
+    this.processedCount = snapshot.processedCount;
+    this.filteredCount = snapshot.filteredCount;
+    this.driftCount = snapshot.driftCount;
+    this.basePointRebuilds = snapshot.basePointRebuilds;
+    this.speedRejectedCount = snapshot.speedRejectedCount ?? 0;
+    this.headingRejectedCount = snapshot.headingRejectedCount ?? 0;
+    this.speedRescuedCount = snapshot.speedRescuedCount ?? 0;
+    this.feasibilityViolations = { speed: 0, acceleration: 0, yawRate: 0, ...snapshot.feasibilityViolations };
+    this.isInitialized = true;
+    this.lastProcessingResult = null;
+    this.traceEntries = [];
+    
+    // 恢复数据时钟：优先取快照记录的时钟时间，旧快照退回滑动窗口中最新的数据时间
+    this.clock.reset();
+    for (const wp of this.slidingWindow) {
+      this.clock.observe(wp.point.timestamp);
+    }
+    if (snapshot.clockTime !== undefined) {
+      this.clock.observe(snapshot.clockTime);
+    }
+    
+    this.log('info', `算法状态已恢复: 已处理${this.processedCount}点，有效${this.validPoints.length}点`);
+  }
+  
+  /** 校验状态快照格式 */
+  private validateSnapshot(snapshot: AnalyzerStateSnapshot): void {
+    if (typeof snapshot !== 'object' || snapshot === null) {
+      throw new Error('状态快照格式不正确，期望对象格式');
+    }
+    if (snapshot.version !== ANALYZER_STATE_VERSION) {
+      throw new Error(`不支持的状态快照版本: ${snapshot.version}，当前版本: ${ANALYZER_STATE_VERSION}`);
+    }
+    if (!Array.isArray(snapshot.slidingWindow) || !Array.isArray(snapshot.validPoints)) {
+      throw new Error('状态快照缺少滑动窗口或有效点数据');
+    }
+    
+    const counters: (keyof AnalyzerStateSnapshot)[] = [
+      'consecutiveDriftCount',
+      'processedCount',
+      'filteredCount',
+      'driftCount',
+      'basePointRebuilds'
+    ];
+    for (const key of counters) {
+      if (typeof snapshot[key] !== 'number' || !Number.isFinite(snapshot[key] as number)) {
+        throw new Error(`状态快照字段无效: ${key}`);
+      }
+    }
+    if (snapshot.clockTime !== undefined && !Number.isFinite(snapshot.clockTime)) {
+      throw new Error('状态快照字段无效: clockTime');
+    }
+  }
+  
   // ==================== 核心算法逻辑 ====================
   
   /** 添加点到滑动窗口 */
@@ -224,23 +527,146 @@ export class GpsTrajectoryAnalyzer implements IGPSAlgorithm {
   }
   
   /** 检查基准点是否过期 */
-  private checkBasePointExpiry(currentTimestamp: number): void {
-    if (this.basePoint && currentTimestamp - this.basePoint.createdAt > this.config.validityPeriod) {
+  private checkBasePointExpiry(): void {
+    if (this.isBasePointExpired()) {
       this.log('debug', '基准点已过期，清除基准点');
       this.basePoint = null;
     }
   }
   
   /** 判断是否为漂移点 */
-  private isDriftPoint(point: InternalGPSPoint): boolean {
+  private evaluateDrift(point: InternalGPSPoint): DriftEvaluation {
+    // 物理可行性为硬约束，无论是否有基准点都优先判断
+    const violation = this.checkPointFeasibility(point);
+    
     if (!this.basePoint) {
-      return false; // 没有基准点时不判断漂移
+      // 没有基准点时不判断漂移
+      return {
+        isDrift: violation !== null,
+        cause: violation !== null ? 'feasibility' : null,
+        distance: null,
+        threshold: null,
+        baseThreshold: null,
+        speedScaled: false,
+        violation
+      };
     }
     
     const distance = this.calculateDistance(point, this.basePoint.point);
-    const threshold = this.basePoint.radius * this.config.driftThresholdMultiplier;
+    const baseThreshold = this.basePoint.radius * this.config.driftThresholdMultiplier;
+    let threshold = baseThreshold;
+    let speedScaled = false;
+    
+    if (this.config.driftDetectionMode === 'kinematic') {
+      const speedThreshold = this.calculateSpeedThreshold(point);
+      if (speedThreshold !== null && speedThreshold > baseThreshold) {
+        threshold = speedThreshold;
+        speedScaled = true;
+      }
+    }
+    
+    const evaluation: DriftEvaluation = {
+      isDrift: false,
+      cause: null,
+      distance,
+      threshold,
+      baseThreshold,
+      speedScaled,
+      violation
+    };
+    
+    if (violation !== null) {
+      evaluation.isDrift = true;
+      evaluation.cause = 'feasibility';
+    } else if (distance > threshold) {
+      evaluation.isDrift = true;
+      // 只有阈值确实按速度放宽过，才计为放宽后仍被拒绝
+      evaluation.cause = speedScaled ? 'speed' : 'distance';
+    } else if (this.config.driftDetectionMode === 'kinematic' && this.isHeadingInconsistent(point)) {
+      evaluation.isDrift = true;
+      evaluation.cause = 'heading';
+    }
+    
+    return evaluation;
+  }
+  
+  /**
+   * 按载具物理约束检测相对最近有效点的可行性，返回违反的约束
+   * 只参照referenceStartIndex之后的有效点；重建基准点后没有参照点，下一个点直接作为新的参照
+   */
+  private checkPointFeasibility(point: InternalGPSPoint): FeasibilityConstraint | null {
+    const profile = resolveVehicleProfile(this.config);
+    const referenceCount = this.validPoints.length - this.referenceStartIndex;
+    if (!profile || referenceCount < 1) {
+      return null;
+    }
     
-    return distance > threshold;
+    const previous = this.validPoints[this.validPoints.length - 1];
+    const beforePrevious = referenceCount >= 2 ? this.validPoints[this.validPoints.length - 2] : null;
+    return checkFeasibility(profile, point, previous, beforePrevious, this.config.earthRadius).violation;
+  }
+  
+  /** 违反物理约束被拒绝的点数 */
+  private getFeasibilityRejectedCount(): number {
+    return this.feasibilityViolations.speed + this.feasibilityViolations.acceleration + this.feasibilityViolations.yawRate;
+  }
+  
+  /**
+   * 按上报速度计算放宽后的漂移阈值（米）
+   * 预期位移 = 最近有效点到基准点的距离 + 上报速度 × 距最近有效点的时间
+   */
+  private calculateSpeedThreshold(point: InternalGPSPoint): number | null {
+    const lastValidPoint = this.validPoints[this.validPoints.length - 1];
+    if (!this.basePoint || !lastValidPoint || point.spd === undefined || point.spd === null) {
+      return null;
+    }
+    
+    const speedMps = Math.max(0, point.spd) / 3.6;
+    const elapsedSeconds = Math.max(0, (point.timestamp - lastValidPoint.timestamp) / 1000);
+    const expectedDisplacement = this.calculateDistance(lastValidPoint, this.basePoint.point) + speedMps * elapsedSeconds;
+    
+    return expectedDisplacement * this.config.speedThresholdScale;
+  }
+  
+  /** 判断位移方向是否与上报航向不一致（视为跳点） */
+  private isHeadingInconsistent(point: InternalGPSPoint): boolean {
+    const lastValidPoint = this.validPoints[this.validPoints.length - 1];
+    if (
+      !this.basePoint ||
+      !lastValidPoint ||
+      point.cog === undefined || point.cog === null ||
+      point.spd === undefined || point.spd === null ||
+      point.spd < this.config.minHeadingSpeed
+    ) {
+      return false;
+    }
+    
+    // 位移在基准点半径内时方向不可靠，不做判断
+    if (this.calculateDistance(lastValidPoint, point) < this.basePoint.radius) {
+      return false;
+    }
+    
+    const bearing = calculateBearing(lastValidPoint, point);
+    return angleDifference(bearing, point.cog) > this.config.headingTolerance;
+  }
+  
+  /** 记录速度/航向/物理约束相关统计 */
+  private recordKinematicStatistics(evaluation: DriftEvaluation): void {
+    if (evaluation.cause === 'speed') {
+      this.speedRejectedCount++;
+    } else if (evaluation.cause === 'heading') {
+      this.headingRejectedCount++;
+    } else if (evaluation.cause === 'feasibility' && evaluation.violation !== null) {
+      this.feasibilityViolations[evaluation.violation]++;
+    } else if (
+      !evaluation.isDrift &&
+      evaluation.speedScaled &&
+      evaluation.distance !== null &&
+      evaluation.baseThreshold !== null &&
+      evaluation.distance > evaluation.baseThreshold
+    ) {
+      this.speedRescuedCount++;
+    }
   }
   
   /** 处理漂移点 */
@@ -338,46 +764,79 @@ export class GpsTrajectoryAnalyzer implements IGPSAlgorithm {
       this.validPoints.push(point);
       this.filteredCount--; // 减少过滤计数
       this.driftCount--; // 减少漂移计数
+      this.markTraceRestored(point.index);
+    }
+    
+    // 记录触发恢复的点
+    const currentTrace = this.traceEntries[this.traceEntries.length - 1];
+    if (currentTrace && currentTrace.index === this.processedCount - 1) {
+      currentTrace.triggeredLinearRecovery = true;
     }
     
     // 更新基准点
     this.updateBasePoint();
   }
   
-  /** 重建基准点 */
+  /**
+   * 重建基准点
+   * 启用物理可行性检查时，连续漂移说明最近的有效点可能本身就是离群点，因此同时重置可行性的参照点；
+   * 此时最近的有效点不足3个则不据此重建，清除基准点，等待之后的有效点重新创建
+   */
   private rebuildBasePoint(): void {
     this.log('info', '重建基准点');
     this.basePointRebuilds++;
     
-    // 使用最近的有效点重建基准点
-    const recentValidPoints = this.validPoints.slice(-this.config.windowSize);
-    if (recentValidPoints.length > 0) {
-      const centroid = this.calculateCentroid(recentValidPoints);
-      const radius = this.calculateRadius(recentValidPoints, centroid);
-      
-      this.basePoint = {
-        point: centroid,
-        radius: Math.max(radius, 50), // 最小半径50米
-        createdAt: Date.now(),
-        validPointsCount: recentValidPoints.length
-      };
-      
-      this.log('info', `新基准点: (${centroid.lat}, ${centroid.lng}), 半径: ${this.basePoint.radius}m`);
+    // 未启用物理可行性检查：使用最近的有效点重建基准点
+    if (!resolveVehicleProfile(this.config)) {
+      const recentValidPoints = this.validPoints.slice(-this.config.windowSize);
+      if (recentValidPoints.length > 0) {
+        this.setRebuiltBasePoint(recentValidPoints);
+      }
+      return;
     }
+    
+    // 只使用参照起点之后的最近有效点，并将参照起点前移
+    const recentValidPoints = this.validPoints.slice(
+      Math.max(this.referenceStartIndex, this.validPoints.length - this.config.windowSize)
+    );
+    this.referenceStartIndex = this.validPoints.length;
+    
+    if (recentValidPoints.length < 3) {
+      this.basePoint = null;
+      this.log('info', `最近有效点不足3个（${recentValidPoints.length}个），清除基准点等待重新创建`);
+    } else {
+      this.setRebuiltBasePoint(recentValidPoints);
+    }
+  }
+  
+  /** 以给定有效点重建基准点 */
+  private setRebuiltBasePoint(points: InternalGPSPoint[]): void {
+    const centroid = this.calculateCentroid(points);
+    const radius = this.calculateRadius(points, centroid);
+    
+    this.basePoint = {
+      point: centroid,
+      radius: Math.max(radius, 50), // 最小半径50米
+      createdAt: this.clock.now(),
+      validPointsCount: points.length
+    };
+    
+    this.log('info', `新基准点: (${centroid.lat}, ${centroid.lng}), 半径: ${this.basePoint.radius}m`);
   }
   
   /** 更新基准点 */
   private updateBasePoint(): void {
-    if (!this.basePoint && this.validPoints.length >= 3) {
+    const referencePoints = this.validPoints.slice(this.referenceStartIndex);
+    if (!this.basePoint && referencePoints.length >= 3) {
       // 创建初始基准点
-      const centroid = this.calculateCentroid(this.validPoints);
-      const radius = this.calculateRadius(this.validPoints, centroid);
+      const centroid = this.calculateCentroid(referencePoints);
+      const radius = this.calculateRadius(referencePoints, centroid);
       
       this.basePoint = {
         point: centroid,
         radius: Math.max(radius, 50),
-        createdAt: Date.now(),
-        validPointsCount: this.validPoints.length
+        createdAt: this.clock.now(),
+        validPointsCount: referencePoints.length
       };
       
       this.log('info', `创建初始基准点: (${centroid.lat}, ${centroid.lng}), 半径: ${this.basePoint.radius}m`);
@@ -395,7 +854,7 @@ export class GpsTrajectoryAnalyzer implements IGPSAlgorithm {
   
   /** 基准点是否过期 */
   private isBasePointExpired(): boolean {
-    return this.basePoint ? Date.now() - this.basePoint.createdAt > this.config.validityPeriod : false;
+    return this.basePoint ? this.clock.now() - this.basePoint.createdAt > this.config.validityPeriod : false;
   }
   
   // ==================== 数学计算方法 ====================
@@ -427,7 +886,7 @@ export class GpsTrajectoryAnalyzer implements IGPSAlgorithm {
     return {
       lat: sumLat / points.length,
       lng: sumLng / points.length,
-      timestamp: Date.now()
+      timestamp: this.clock.now()
     };
   }
   
@@ -470,6 +929,135 @@ export class GpsTrajectoryAnalyzer implements IGPSAlgorithm {
     return Math.min(...angles);
   }
   
+  // ==================== 数据缺口 ====================
+  
+  /** 是否检测数据缺口：显式开启，或开启了依赖缺口的基准点清除、插值 */
+  private isGapDetectionEnabled(): boolean {
+    return this.config.enableGapDetection || this.config.resetBasePointOnGap || this.config.gapInterpolation !== 'none';
+  }
+  
+  /**
+   * 检测当前点与上一个输入点之间的数据缺口
+   * @returns 是否因缺口清除了基准点
+   */
+  private detectGap(point: InternalGPSPoint): boolean {
+    const previous = this.slidingWindow[this.slidingWindow.length - 1]?.point;
+    if (!this.isGapDetectionEnabled() || !previous || point.timestamp - previous.timestamp <= this.config.gapThreshold) {
+      return false;
+    }
+    
+    const gap: GapSegment = {
+      startIndex: previous.index ?? point.index! - 1,
+      endIndex: point.index!,
+      startPoint: { lat: previous.lat, lng: previous.lng, timestamp: previous.timestamp },
+      endPoint: { lat: point.lat, lng: point.lng, timestamp: point.timestamp },
+      startTime: previous.timestamp,
+      endTime: point.timestamp,
+      duration: point.timestamp - previous.timestamp,
+      distance: this.calculateDistance(previous, point),
+      interpolatedPointCount: 0
+    };
+    this.gapSegments.push(gap);
+    
+    this.log('info', `检测到数据缺口: ${gap.duration}ms，距离${Math.round(gap.distance)}米`);
+    
+    if (this.config.resetBasePointOnGap && this.basePoint) {
+      this.basePoint = null;
+      this.consecutiveDriftCount = 0;
+      this.log('debug', '数据缺口后清除基准点');
+      return true;
+    }
+    
+    return false;
+  }
+  
+  /**
+   * 对两端点均为有效点的缺口进行插值
+   * @param validity 每个输入点的判定结果
+   */
+  private interpolateGaps(validity: boolean[]): InterpolatedGPSPoint[] {
+    const method = this.config.gapInterpolation;
+    if (method === 'none') {
+      return [];
+    }
+    
+    const interpolatedPoints: InterpolatedGPSPoint[] = [];
+    
+    this.gapSegments.forEach((gap, gapIndex) => {
+      if (!validity[gap.startIndex] || !validity[gap.endIndex]) {
+        return;
+      }
+      
+      const points = interpolateGap(gap.startPoint, gap.endPoint, method, this.config.interpolationInterval, gapIndex);
+      gap.interpolatedPointCount = points.length;
+      interpolatedPoints.push(...points);
+    });
+    
+    return interpolatedPoints;
+  }
+  
+  // ==================== 判定追踪 ====================
+  
+  /** 创建单点判定追踪记录（判定后的状态由processPoint补全） */
+  private createTraceEntry(
+    point: GPSPoint,
+    internalPoint: InternalGPSPoint,
+    evaluation: DriftEvaluation,
+    basePointCleared: 'expired' | 'gap' | null
+  ): PointDecisionTrace {
+    let reason: PointDecisionTrace['reason'];
+    if (evaluation.cause === 'feasibility') {
+      reason = 'physically_infeasible';
+    } else if (evaluation.cause === 'heading') {
+      reason = 'heading_inconsistent';
+    } else if (evaluation.distance !== null) {
+      reason = evaluation.isDrift ? 'exceeds_threshold' : 'within_threshold';
+    } else if (basePointCleared === 'gap') {
+      reason = 'base_point_reset_by_gap';
+    } else {
+      reason = basePointCleared === 'expired' ? 'base_point_expired' : 'no_base_point';
+    }
+    
+    const entry: PointDecisionTrace = {
+      index: internalPoint.index ?? this.processedCount - 1,
+      point: { lat: point.lat, lng: point.lng, timestamp: point.timestamp },
+      decision: evaluation.isDrift ? 'filtered' : 'accepted',
+      reason,
+      distanceToBasePoint: evaluation.distance,
+      threshold: evaluation.threshold,
+      thresholdScaledBySpeed: evaluation.speedScaled,
+      violatedConstraint: evaluation.violation,
+      basePoint: this.basePoint
+        ? { lat: this.basePoint.point.lat, lng: this.basePoint.point.lng, radius: this.basePoint.radius }
+        : null,
+      consecutiveDriftCount: this.consecutiveDriftCount,
+      triggeredRebuild: false,
+      triggeredLinearRecovery: false,
+      restoredByLinearMotion: false,
+      windowSnapshot: []
+    };
+    
+    this.traceEntries.push(entry);
+    return entry;
+  }
+  
+  /** 标记追踪记录已被直线运动误判恢复 */
+  private markTraceRestored(index: number | undefined): void {
+    if (index === undefined) {
+      return;
+    }
+    
+    for (let i = this.traceEntries.length - 1; i >= 0; i--) {
+      if (this.traceEntries[i].index === index) {
+        this.traceEntries[i].restoredByLinearMotion = true;
+        return;
+      }
+      if (this.traceEntries[i].index < index) {
+        return;
+      }
+    }
+  }
+  
   // ==================== 辅助方法 ====================
   
   /** 生成标记信息 */
@@ -587,6 +1175,16 @@ export class GpsTrajectoryAnalyzer implements IGPSAlgorithm {
 
       lastPoint = currentPoint;
     }
+    
+    // 数据缺口标记
+    for (const gap of this.gapSegments) {
+      markers.push({
+        type: 'gap',
+        position: { lat: gap.startPoint.lat, lng: gap.startPoint.lng },
+        info: `数据缺口 (${Math.round(gap.duration / 1000)}秒，两端相距${Math.round(gap.distance)}米)`,
+        timestamp: gap.startTime
+      });
+    }
   }
   
   /** 日志输出 */
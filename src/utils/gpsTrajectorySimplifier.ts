@@ -0,0 +1,267 @@
+/**
+ * GPS轨迹几何简化
+ * 提供Douglas-Peucker、Visvalingam-Whyatt及同步欧氏距离（SED）三种简化算法
+ */
+
+import { GPSPoint } from './gpsAlgorithmPackage';
+import { EARTH_RADIUS, LocalPoint, pointToSegmentDistance, toLocalMeters, haversineDistance } from './gpsGeometry';
+
+/** 简化算法类型 */
+export type SimplificationMethod = 'douglas-peucker' | 'visvalingam-whyatt' | 'sed';
+
+/** 简化选项 */
+export interface SimplificationOptions {
+  method: SimplificationMethod;
+  /**
+   * 容差
+   * - douglas-peucker：垂直距离（米）
+   * - visvalingam-whyatt：有效三角形面积（平方米）
+   * - sed：同步欧氏距离（米）
+   */
+  tolerance: number;
+  earthRadius?: number;  // 地球半径（米，默认：6371000）
+}
+
+/** 简化结果 */
+export interface SimplificationResult {
+  points: GPSPoint[];         // 简化后的点
+  keptIndices: number[];      // 保留点在原始数组中的索引
+  method: SimplificationMethod;
+  originalCount: number;      // 原始点数
+  simplifiedCount: number;    // 简化后点数
+  reductionRatio: number;     // 削减率（0-1，被移除点数/原始点数）
+  maxDeviationMeters: number; // 原始点到简化轨迹的最大偏差（米，sed方法为同步欧氏距离）
+}
+
+/**
+ * 简化GPS轨迹
+ * @param points 按时间排序的GPS点
+ * @param options 简化选项
+ * @returns 简化结果
+ */
+export function simplifyTrajectory(points: GPSPoint[], options: SimplificationOptions): SimplificationResult {
+  if (!(options.tolerance >= 0)) {
+    throw new Error(`简化容差必须为非负数: ${options.tolerance}`);
+  }
+
+  const earthRadius = options.earthRadius ?? EARTH_RADIUS;
+  let keptIndices: number[];
+
+  if (points.length <= 2) {
+    keptIndices = points.map((_, index) => index);
+  } else {
+    switch (options.method) {
+      case 'douglas-peucker':
+        keptIndices = douglasPeucker(points, options.tolerance, (p, a, b) =>
+          pointToSegmentDistance(p, a, b, earthRadius));
+        break;
+      case 'sed':
+        keptIndices = douglasPeucker(points, options.tolerance, (p, a, b) =>
+          synchronizedEuclideanDistance(p, a, b, earthRadius));
+        break;
+      case 'visvalingam-whyatt':
+        keptIndices = visvalingamWhyatt(points, options.tolerance, earthRadius);
+        break;
+      default:
+        throw new Error(`不支持的简化算法: ${options.method}`);
+    }
+  }
+
+  const deviationFn = options.method === 'sed'
+    ? (p: GPSPoint, a: GPSPoint, b: GPSPoint) => synchronizedEuclideanDistance(p, a, b, earthRadius)
+    : (p: GPSPoint, a: GPSPoint, b: GPSPoint) => pointToSegmentDistance(p, a, b, earthRadius);
+
+  // 每个被移除的点只需与覆盖它的简化线段比较
+  let maxDeviationMeters = 0;
+  for (let k = 1; k < keptIndices.length; k++) {
+    const startIndex = keptIndices[k - 1];
+    const endIndex = keptIndices[k];
+    for (let i = startIndex + 1; i < endIndex; i++) {
+      maxDeviationMeters = Math.max(maxDeviationMeters, deviationFn(points[i], points[startIndex], points[endIndex]));
+    }
+  }
+
+  const simplifiedPoints = keptIndices.map(index => points[index]);
+
+  return {
+    points: simplifiedPoints,
+    keptIndices,
+    method: options.method,
+    originalCount: points.length,
+    simplifiedCount: simplifiedPoints.length,
+    reductionRatio: points.length > 0 ? 1 - simplifiedPoints.length / points.length : 0,
+    maxDeviationMeters
+  };
+}
+
+/**
+ * 同步欧氏距离（米）
+ * 点与线段上按时间比例插值得到的同一时刻位置之间的距离
+ */
+export function synchronizedEuclideanDistance(
+  point: GPSPoint,
+  start: GPSPoint,
+  end: GPSPoint,
+  earthRadius: number = EARTH_RADIUS
+): number {
+  const duration = end.timestamp - start.timestamp;
+  const ratio = duration > 0
+    ? Math.max(0, Math.min(1, (point.timestamp - start.timestamp) / duration))
+    : 0;
+
+  const interpolated = {
+    lat: start.lat + (end.lat - start.lat) * ratio,
+    lng: start.lng + (end.lng - start.lng) * ratio
+  };
+
+  return haversineDistance(point, interpolated, earthRadius);
+}
+
+// ==================== 算法实现 ====================
+
+/** Douglas-Peucker（迭代实现，距离函数可替换） */
+function douglasPeucker(
+  points: GPSPoint[],
+  tolerance: number,
+  distanceFn: (point: GPSPoint, start: GPSPoint, end: GPSPoint) => number
+): number[] {
+  const keep = new Array(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  const stack: [number, number][] = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [startIndex, endIndex] = stack.pop()!;
+    let maxDistance = -1;
+    let maxIndex = -1;
+
+    for (let i = startIndex + 1; i < endIndex; i++) {
+      const distance = distanceFn(points[i], points[startIndex], points[endIndex]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+
+    if (maxIndex !== -1 && maxDistance > tolerance) {
+      keep[maxIndex] = true;
+      stack.push([startIndex, maxIndex], [maxIndex, endIndex]);
+    }
+  }
+
+  return keep
+    .map((kept, index) => (kept ? index : -1))
+    .filter(index => index !== -1);
+}
+
+/** Visvalingam-Whyatt（基于最小堆，逐个移除有效面积最小的点） */
+function visvalingamWhyatt(points: GPSPoint[], areaThreshold: number, earthRadius: number): number[] {
+  const local: LocalPoint[] = points.map(p => toLocalMeters(points[0], p, earthRadius));
+  const prev = points.map((_, i) => i - 1);
+  const next = points.map((_, i) => (i + 1 < points.length ? i + 1 : -1));
+  const area = new Array<number>(points.length).fill(Infinity);
+  const removed = new Array<boolean>(points.length).fill(false);
+
+  const triangleArea = (i: number): number => {
+    const a = local[prev[i]];
+    const b = local[i];
+    const c = local[next[i]];
+    return Math.abs((b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y)) / 2;
+  };
+
+  const heap = new MinHeap();
+  for (let i = 1; i < points.length - 1; i++) {
+    area[i] = triangleArea(i);
+    heap.push(area[i], i);
+  }
+
+  // 被移除点的有效面积会向邻点传递，保证有效面积单调不减
+  let lastRemovedArea = 0;
+
+  while (heap.size() > 0) {
+    const entry = heap.pop()!;
+    const index = entry.index;
+
+    // 跳过过期的堆记录
+    if (removed[index] || entry.area !== area[index]) {
+      continue;
+    }
+
+    const effectiveArea = Math.max(entry.area, lastRemovedArea);
+    if (effectiveArea >= areaThreshold) {
+      break;
+    }
+
+    lastRemovedArea = effectiveArea;
+    removed[index] = true;
+
+    const before = prev[index];
+    const after = next[index];
+    next[before] = after;
+    prev[after] = before;
+
+    for (const neighbor of [before, after]) {
+      if (prev[neighbor] !== -1 && next[neighbor] !== -1) {
+        area[neighbor] = triangleArea(neighbor);
+        heap.push(area[neighbor], neighbor);
+      }
+    }
+  }
+
+  return points
+    .map((_, index) => (removed[index] ? -1 : index))
+    .filter(index => index !== -1);
+}
+
+/** 面积最小堆 */
+class MinHeap {
+  private items: { area: number; index: number }[] = [];
+
+  size(): number {
+    return this.items.length;
+  }
+
+  push(area: number, index: number): void {
+    this.items.push({ area, index });
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.items[parent].area <= this.items[i].area) {
+        break;
+      }
+      [this.items[parent], this.items[i]] = [this.items[i], this.items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { area: number; index: number } | undefined {
+    if (this.items.length === 0) {
+      return undefined;
+    }
+
+    const top = this.items[0];
+    const last = this.items.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.items[left].area < this.items[smallest].area) {
+          smallest = left;
+        }
+        if (right < this.items.length && this.items[right].area < this.items[smallest].area) {
+          smallest = right;
+        }
+        if (smallest === i) {
+          break;
+        }
+        [this.items[smallest], this.items[i]] = [this.items[i], this.items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * GPS行程分段
+ * 根据停留和数据时间间隔将处理后的有效点切分为多个行程，并生成行程摘要
+ */
+
+import {
+  GPSPoint,
+  ProcessingResult,
+  Trip,
+  TripSegmentationResult
+} from './gpsAlgorithmPackage';
+import { EARTH_RADIUS, haversineDistance } from './gpsGeometry';
+import { GPSStayPointDetector } from './gpsStayPointDetector';
+
+/** 行程分段配置 */
+export interface TripSegmentationConfig {
+  stopDistanceThreshold: number;  // 停留范围半径（米，默认：100）
+  minStopDuration: number;        // 最短停留时长（毫秒，默认：300000）
+  maxTimeGap: number;             // 相邻点最大时间间隔，超过则切分行程（毫秒，默认：600000）
+  minTripDistance: number;        // 最短行程距离，低于此值的片段丢弃（米，默认：200）
+  earthRadius: number;            // 地球半径（米，默认：6371000）
+}
+
+/** 默认行程分段配置 */
+export const DEFAULT_TRIP_SEGMENTATION_CONFIG: TripSegmentationConfig = {
+  stopDistanceThreshold: 100,
+  minStopDuration: 300000,
+  maxTimeGap: 600000,
+  minTripDistance: 200,
+  earthRadius: EARTH_RADIUS
+};
+
+/**
+ * 行程分段器
+ */
+export class GPSTripSegmenter {
+  private config: TripSegmentationConfig;
+
+  constructor(config?: Partial<TripSegmentationConfig>) {
+    this.config = { ...DEFAULT_TRIP_SEGMENTATION_CONFIG, ...config };
+
+    if (!(this.config.maxTimeGap > 0)) {
+      throw new Error(`最大时间间隔必须大于0: ${this.config.maxTimeGap}`);
+    }
+  }
+
+  /** 获取当前配置 */
+  getConfig(): TripSegmentationConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * 对处理结果进行行程分段
+   * @param result 算法处理结果
+   * @returns 行程分段结果
+   */
+  segment(result: ProcessingResult): TripSegmentationResult {
+    return this.segmentPoints(result.processedPoints, result.filteredPoints);
+  }
+
+  /**
+   * 对有效点进行行程分段
+   * @param points 有效点
+   * @param filteredPoints 被过滤的点（用于统计行程内过滤点数）
+   */
+  segmentPoints(points: GPSPoint[], filteredPoints: GPSPoint[] = []): TripSegmentationResult {
+    const sortedPoints = [...points].sort((a, b) => a.timestamp - b.timestamp);
+    const detector = new GPSStayPointDetector({
+      distanceThreshold: this.config.stopDistanceThreshold,
+      minDuration: this.config.minStopDuration,
+      earthRadius: this.config.earthRadius
+    });
+    const stops = detector.detect(sortedPoints);
+
+    // 停留之间的区间为运动区间，行程以离开停留点开始、以到达下一停留点结束
+    const movingRanges: [number, number][] = [];
+    let rangeStart = 0;
+    for (const stop of stops) {
+      movingRanges.push([rangeStart, stop.startIndex]);
+      rangeStart = stop.endIndex;
+    }
+    movingRanges.push([rangeStart, sortedPoints.length - 1]);
+
+    const trips: Trip[] = [];
+    for (const [start, end] of movingRanges) {
+      for (const [tripStart, tripEnd] of this.splitByTimeGap(sortedPoints, start, end)) {
+        const trip = this.buildTrip(sortedPoints, tripStart, tripEnd, filteredPoints);
+        if (trip && trip.distance >= this.config.minTripDistance) {
+          trips.push(trip);
+        }
+      }
+    }
+
+    return {
+      trips,
+      stops,
+      statistics: {
+        tripCount: trips.length,
+        stopCount: stops.length,
+        totalDistance: trips.reduce((sum, trip) => sum + trip.distance, 0),
+        totalMovingDuration: trips.reduce((sum, trip) => sum + trip.duration, 0),
+        totalStopDuration: stops.reduce((sum, stop) => sum + stop.duration, 0)
+      }
+    };
+  }
+
+  // ==================== 内部方法 ====================
+
+  /** 按数据时间间隔切分区间 */
+  private splitByTimeGap(points: GPSPoint[], start: number, end: number): [number, number][] {
+    const ranges: [number, number][] = [];
+    if (end <= start) {
+      return ranges;
+    }
+
+    let segmentStart = start;
+    for (let i = start + 1; i <= end; i++) {
+      if (points[i].timestamp - points[i - 1].timestamp > this.config.maxTimeGap) {
+        ranges.push([segmentStart, i - 1]);
+        segmentStart = i;
+      }
+    }
+    ranges.push([segmentStart, end]);
+
+    return ranges.filter(([s, e]) => e > s);
+  }
+
+  /** 构建行程摘要 */
+  private buildTrip(
+    points: GPSPoint[],
+    startIndex: number,
+    endIndex: number,
+    filteredPoints: GPSPoint[]
+  ): Trip | null {
+    if (endIndex <= startIndex) {
+      return null;
+    }
+
+    let distance = 0;
+    let maxSpeed = 0;
+    for (let i = startIndex + 1; i <= endIndex; i++) {
+      const segmentDistance = haversineDistance(points[i - 1], points[i], this.config.earthRadius);
+      const segmentDuration = (points[i].timestamp - points[i - 1].timestamp) / 1000;
+      distance += segmentDistance;
+      if (segmentDuration > 0) {
+        maxSpeed = Math.max(maxSpeed, segmentDistance / segmentDuration);
+      }
+    }
+
+    const startPoint = points[startIndex];
+    const endPoint = points[endIndex];
+    const duration = endPoint.timestamp - startPoint.timestamp;
+    const filteredPointCount = filteredPoints.filter(
+      p => p.timestamp >= startPoint.timestamp && p.timestamp <= endPoint.timestamp
+    ).length;
+
+    return {
+      startTime: startPoint.timestamp,
+      endTime: endPoint.timestamp,
+      startLocation: { lat: startPoint.lat, lng: startPoint.lng },
+      endLocation: { lat: endPoint.lat, lng: endPoint.lng },
+      distance,
+      duration,
+      averageSpeed: duration > 0 ? distance / (duration / 1000) : 0,
+      maxSpeed,
+      pointCount: endIndex - startIndex + 1,
+      filteredPointCount,
+      startIndex,
+      endIndex
+    };
+  }
+}
+
+export default GPSTripSegmenter;
@@ -0,0 +1,142 @@
+/**
+ * GPS离线双向处理
+ * 对历史轨迹分别正向、反向各处理一遍，按投票规则合并两遍的判定，
+ * 减少基准点重建后（如出隧道）因缺少上下文造成的误删
+ */
+
+import {
+  IGPSAlgorithm,
+  GPSPoint,
+  ExtendedGPSPoint,
+  MarkerInfo,
+  ProcessingResult,
+  TwoPassDisagreement,
+  TwoPassVotingRule
+} from './gpsAlgorithmPackage';
+
+/**
+ * 双向处理GPS轨迹
+ * 反向处理时将时间轴镜像（t' = 首点时间 + 末点时间 - t），航向反转180度，保证算法看到的时间仍然递增
+ * @param algorithm 算法实例（处理前后都会被重置）
+ * @param points 按时间排序的GPS点
+ * @param votingRule 投票规则
+ * @returns 合并后的处理结果，twoPass字段包含两遍判定不一致的点
+ */
+export function processTwoPass(
+  algorithm: IGPSAlgorithm,
+  points: GPSPoint[],
+  votingRule: TwoPassVotingRule
+): ProcessingResult {
+  const startTime = Date.now();
+
+  // 正向处理
+  algorithm.reset();
+  const forwardValid = points.map(point => algorithm.processPoint(point));
+  const forwardRebuilds = algorithm.getStatus().statistics.basePointRebuildsCount || 0;
+
+  // 反向处理
+  algorithm.reset();
+  const backwardValid = new Array<boolean>(points.length);
+  for (let i = points.length - 1; i >= 0; i--) {
+    backwardValid[i] = algorithm.processPoint(mirrorPoint(points[i], points));
+  }
+  const backwardRebuilds = algorithm.getStatus().statistics.basePointRebuildsCount || 0;
+
+  algorithm.reset();
+
+  const processedPoints: GPSPoint[] = [];
+  const filteredPoints: GPSPoint[] = [];
+  const markers: MarkerInfo[] = [];
+  const disagreements: TwoPassDisagreement[] = [];
+  let forwardFilteredCount = 0;
+  let backwardFilteredCount = 0;
+
+  points.forEach((point, index) => {
+    const isValid = vote(forwardValid[index], backwardValid[index], votingRule);
+
+    if (!forwardValid[index]) {
+      forwardFilteredCount++;
+    }
+    if (!backwardValid[index]) {
+      backwardFilteredCount++;
+    }
+
+    if (isValid) {
+      processedPoints.push(point);
+    } else {
+      filteredPoints.push(point);
+      markers.push({
+        type: 'drift',
+        position: { lat: point.lat, lng: point.lng },
+        info: forwardValid[index] === backwardValid[index] ? '漂移点 (双向一致)' : '漂移点 (单向判定)',
+        timestamp: point.timestamp
+      });
+    }
+
+    if (forwardValid[index] !== backwardValid[index]) {
+      disagreements.push({
+        index,
+        point,
+        forward: forwardValid[index] ? 'accepted' : 'filtered',
+        backward: backwardValid[index] ? 'accepted' : 'filtered',
+        final: isValid ? 'accepted' : 'filtered'
+      });
+    }
+  });
+
+  return {
+    originalPoints: [...points],
+    processedPoints,
+    filteredPoints,
+    statistics: {
+      totalInputPoints: points.length,
+      validOutputPoints: processedPoints.length,
+      filteredPointsCount: filteredPoints.length,
+      discardedDriftPointsCount: filteredPoints.length,
+      basePointRebuildsCount: forwardRebuilds + backwardRebuilds,
+      processingTimeMs: Date.now() - startTime,
+      filteringRate: points.length > 0 ? filteredPoints.length / points.length : 0
+    },
+    markers,
+    twoPass: {
+      votingRule,
+      forwardFilteredCount,
+      backwardFilteredCount,
+      agreedFilteredCount: forwardFilteredCount - disagreements.filter(d => d.forward === 'filtered').length,
+      disagreements
+    }
+  };
+}
+
+/** 按投票规则合并两遍判定，返回是否保留 */
+function vote(forwardValid: boolean, backwardValid: boolean, votingRule: TwoPassVotingRule): boolean {
+  switch (votingRule) {
+    case 'both':
+      // 两遍都判为漂移才删除
+      return forwardValid || backwardValid;
+    case 'either':
+      // 任一遍判为漂移即删除
+      return forwardValid && backwardValid;
+    case 'forward':
+      return forwardValid;
+    case 'backward':
+      return backwardValid;
+    default:
+      throw new Error(`不支持的投票规则: ${votingRule}`);
+  }
+}
+
+/** 生成反向处理用的镜像点 */
+function mirrorPoint(point: GPSPoint, points: GPSPoint[]): GPSPoint {
+  const mirrored: ExtendedGPSPoint = {
+    ...point,
+    timestamp: points[0].timestamp + points[points.length - 1].timestamp - point.timestamp
+  };
+
+  const cog = (point as ExtendedGPSPoint).cog;
+  if (typeof cog === 'number') {
+    mirrored.cog = (cog + 180) % 360;
+  }
+
+  return mirrored;
+}
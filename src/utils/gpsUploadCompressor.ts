@@ -0,0 +1,201 @@
+/**
+ * GPS上报压缩器
+ * 实现《DTU GPS点处理方案》第四节的上报逻辑：
+ * 每个上报周期内的有效点按时间顺序平均划分为若干段，每段取质心作为代表点上报
+ */
+
+import { GPSPoint, ProcessingResult } from './gpsAlgorithmPackage';
+import { EARTH_RADIUS, pointToPolylineDistance } from './gpsGeometry';
+
+/** 上报压缩配置 */
+export interface UploadCompressionConfig {
+  reportPeriodMs: number;  // 上报周期（毫秒，默认：180000）
+  segmentCount: number;    // 每周期上报点数/分段数（默认：6）
+  earthRadius: number;     // 地球半径（米，默认：6371000）
+}
+
+/** 默认上报压缩配置 */
+export const DEFAULT_UPLOAD_COMPRESSION_CONFIG: UploadCompressionConfig = {
+  reportPeriodMs: 180000,
+  segmentCount: 6,
+  earthRadius: EARTH_RADIUS
+};
+
+/** 单个周期的上报结果 */
+export interface UploadReport {
+  periodStart: number;        // 周期开始时间（毫秒）
+  periodEnd: number;          // 周期结束时间（毫秒，不含）
+  inputPointCount: number;    // 周期内有效点数
+  reportedPoints: GPSPoint[]; // 上报的代表点
+  maxErrorMeters: number;     // 周期内有效点到上报折线的最大距离（米）
+}
+
+/** 批量压缩结果 */
+export interface UploadCompressionResult {
+  reports: UploadReport[];
+  reportedPoints: GPSPoint[];      // 所有周期的上报点（按时间顺序）
+  statistics: {
+    inputPointCount: number;       // 输入有效点数
+    reportedPointCount: number;    // 上报点数
+    reportCount: number;           // 上报次数
+    compressionRatio: number;      // 压缩比（上报点数/输入点数，0-1）
+    maxErrorMeters: number;        // 最大压缩误差（米）
+  };
+}
+
+/**
+ * GPS上报压缩器
+ * 流式使用：对processPoint判定为有效的点调用addPoint，周期结束时返回该周期的上报结果
+ * 批量使用：对processTrajectory的结果调用compressResult
+ */
+export class GPSUploadCompressor {
+  private config: UploadCompressionConfig;
+
+  // 当前周期状态
+  private buffer: GPSPoint[] = [];
+  private periodStart: number | null = null;
+
+  constructor(config?: Partial<UploadCompressionConfig>) {
+    this.config = { ...DEFAULT_UPLOAD_COMPRESSION_CONFIG, ...config };
+
+    if (!(this.config.reportPeriodMs > 0)) {
+      throw new Error(`上报周期必须大于0: ${this.config.reportPeriodMs}`);
+    }
+    if (!Number.isInteger(this.config.segmentCount) || this.config.segmentCount < 1) {
+      throw new Error(`分段数必须为正整数: ${this.config.segmentCount}`);
+    }
+  }
+
+  /** 获取当前配置 */
+  getConfig(): UploadCompressionConfig {
+    return { ...this.config };
+  }
+
+  /** 重置周期状态 */
+  reset(): void {
+    this.buffer = [];
+    this.periodStart = null;
+  }
+
+  // ==================== 流式压缩 ====================
+
+  /**
+   * 添加一个有效点
+   * @returns 若该点开启了新周期，返回上一周期的上报结果，否则返回null
+   */
+  addPoint(point: GPSPoint): UploadReport | null {
+    if (this.periodStart === null) {
+      this.periodStart = point.timestamp;
+    }
+
+    let report: UploadReport | null = null;
+
+    if (point.timestamp >= this.periodStart + this.config.reportPeriodMs) {
+      report = this.flush();
+
+      // 新周期与上一周期按周期长度对齐
+      const elapsedPeriods = Math.floor((point.timestamp - this.periodStart) / this.config.reportPeriodMs);
+      this.periodStart += elapsedPeriods * this.config.reportPeriodMs;
+    }
+
+    this.buffer.push(point);
+    return report;
+  }
+
+  /**
+   * 立即输出当前周期的上报结果并清空缓冲
+   * @returns 当前周期无点时返回null
+   */
+  flush(): UploadReport | null {
+    if (this.buffer.length === 0 || this.periodStart === null) {
+      return null;
+    }
+
+    const report = this.buildReport(this.buffer, this.periodStart);
+    this.buffer = [];
+    return report;
+  }
+
+  // ==================== 批量压缩 ====================
+
+  /** 压缩一组有效点（按时间排序后分周期处理） */
+  compress(points: GPSPoint[]): UploadCompressionResult {
+    const sortedPoints = [...points].sort((a, b) => a.timestamp - b.timestamp);
+    const compressor = new GPSUploadCompressor(this.config);
+    const reports: UploadReport[] = [];
+
+    for (const point of sortedPoints) {
+      const report = compressor.addPoint(point);
+      if (report) {
+        reports.push(report);
+      }
+    }
+
+    const lastReport = compressor.flush();
+    if (lastReport) {
+      reports.push(lastReport);
+    }
+
+    const reportedPoints = reports.flatMap(report => report.reportedPoints);
+
+    return {
+      reports,
+      reportedPoints,
+      statistics: {
+        inputPointCount: sortedPoints.length,
+        reportedPointCount: reportedPoints.length,
+        reportCount: reports.length,
+        compressionRatio: sortedPoints.length > 0 ? reportedPoints.length / sortedPoints.length : 0,
+        maxErrorMeters: reports.reduce((max, report) => Math.max(max, report.maxErrorMeters), 0)
+      }
+    };
+  }
+
+  /** 压缩算法处理结果中的有效点 */
+  compressResult(result: ProcessingResult): UploadCompressionResult {
+    return this.compress(result.processedPoints);
+  }
+
+  // ==================== 内部方法 ====================
+
+  /** 构建单个周期的上报结果 */
+  private buildReport(points: GPSPoint[], periodStart: number): UploadReport {
+    const segmentCount = Math.min(this.config.segmentCount, points.length);
+    const reportedPoints: GPSPoint[] = [];
+
+    // 按时间顺序平均划分为segmentCount段，每段取质心
+    for (let i = 0; i < segmentCount; i++) {
+      const start = Math.floor(i * points.length / segmentCount);
+      const end = Math.floor((i + 1) * points.length / segmentCount);
+      reportedPoints.push(this.calculateCentroid(points.slice(start, end)));
+    }
+
+    const maxErrorMeters = points.reduce(
+      (max, point) => Math.max(max, pointToPolylineDistance(point, reportedPoints, this.config.earthRadius)),
+      0
+    );
+
+    return {
+      periodStart,
+      periodEnd: periodStart + this.config.reportPeriodMs,
+      inputPointCount: points.length,
+      reportedPoints,
+      maxErrorMeters
+    };
+  }
+
+  /** 计算质心（时间戳取平均值） */
+  private calculateCentroid(points: GPSPoint[]): GPSPoint {
+    const sumLat = points.reduce((sum, p) => sum + p.lat, 0);
+    const sumLng = points.reduce((sum, p) => sum + p.lng, 0);
+    const sumTime = points.reduce((sum, p) => sum + p.timestamp, 0);
+
+    return {
+      lat: sumLat / points.length,
+      lng: sumLng / points.length,
+      timestamp: Math.round(sumTime / points.length)
+    };
+  }
+}
+
+export default GPSUploadCompressor;